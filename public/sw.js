@@ -0,0 +1,84 @@
+// Service worker for SunDevil Pods+. Keeps the app shell and the files in
+// /data cached so the dashboard opens, and check-ins can be made, without
+// signal. Registered by src/main.tsx in production builds only.
+
+// Bump to drop everything an older worker cached
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `pods-shell-${CACHE_VERSION}`;
+const DATA_CACHE = `pods-data-${CACHE_VERSION}`;
+
+const SHELL_FILES = ['/', '/index.html', '/manifest.webmanifest', '/icons/pods.svg'];
+
+// Keep in step with DATA_SCHEMAS in src/lib/data.ts
+const DATA_FILES = ['users.json', 'pods.json', 'quests.json', 'badges.json', 'rewards.json', 'spaces.json', 'interests.json'];
+
+// Vite fingerprints the bundle, so read its file names out of index.html
+async function bundledAssets() {
+  const response = await fetch('/index.html', { cache: 'no-cache' });
+  const html = await response.text();
+  return Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), (match) => match[1]);
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const shell = await caches.open(SHELL_CACHE);
+      await shell.addAll([...SHELL_FILES, ...(await bundledAssets())]);
+      const data = await caches.open(DATA_CACHE);
+      await data.addAll(DATA_FILES.map((file) => `/data/${file}`));
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(names.filter((name) => name !== SHELL_CACHE && name !== DATA_CACHE).map((name) => caches.delete(name)));
+      await self.clients.claim();
+    })()
+  );
+});
+
+// Fresh copy when online, cached copy when not
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(fallbackUrl || request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(fallbackUrl || request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Fingerprinted assets never change, so the cache always wins
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // The API server (and its outbox replays) must always hit the network
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    // Every route is the same single-page app
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/index.html'));
+  } else if (url.pathname.startsWith('/data/')) {
+    event.respondWith(networkFirst(request, DATA_CACHE));
+  } else {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -0,0 +1,36 @@
+import { Pod, User } from './lib/types';
+import { AUDIT_USAGE, CliError, parseAuditArgs } from './lib/cli';
+import { readJsonArray, writeJson, writeText } from './lib/io';
+import { buildAudit, formatAuditMarkdown } from './lib/audit';
+
+function main(argv: string[]): void {
+  const options = parseAuditArgs(argv);
+  if (options.help) {
+    console.log(AUDIT_USAGE);
+    return;
+  }
+
+  const pods = readJsonArray<Pod>(options.pods).filter((pod) => !options.zone || pod.zone === options.zone);
+  if (pods.length === 0) {
+    throw new CliError(`No pods to audit in ${options.pods}${options.zone ? ` for zone "${options.zone}"` : ''}`);
+  }
+  const report = buildAudit(pods, readJsonArray<User>(options.users));
+  writeText(options.markdown, formatAuditMarkdown(report));
+  writeJson(options.json, report);
+  console.log(`Audited ${report.pods} pod(s) with ${report.students} student(s)`);
+  report.zones.forEach((zone) =>
+    console.log(`  ${zone.zone}: ${zone.pods} pod(s), ${zone.loneMembers} lone member(s), ${zone.interest.isolatedMembers} sharing no interest`)
+  );
+  console.log(`Wrote ${options.markdown} and ${options.json}`);
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  if (error instanceof CliError) {
+    console.error(error.message);
+    console.error(AUDIT_USAGE);
+    process.exit(1);
+  }
+  throw error;
+}
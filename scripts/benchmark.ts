@@ -0,0 +1,78 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_MATCH_CONFIG, MatchConfig, Space } from './lib/types';
+import { BENCHMARK_USAGE, CliError, parseBenchmarkArgs } from './lib/cli';
+import { readJson, readJsonArray, writeJson, writeText } from './lib/io';
+import { CohortError, formatCohortCsv, generateCohort, parseProfile } from './lib/cohort';
+import { BenchmarkResult, formatBenchmarkTable, runBenchmark } from './lib/benchmark';
+import { DEFAULT_RULES, RulesError, parseRules } from './lib/rules';
+import { RosterError } from './lib/users';
+import { buildInterestLookup, interestCategories, parseTaxonomy } from '../src/lib/interests';
+
+function main(argv: string[]): void {
+  const options = parseBenchmarkArgs(argv);
+  if (options.help) {
+    console.log(BENCHMARK_USAGE);
+    return;
+  }
+
+  const taxonomy = parseTaxonomy(readJson(options.interests));
+  const rulesFile = readJson(options.rules);
+  const config: MatchConfig = {
+    ...DEFAULT_MATCH_CONFIG,
+    minPodSize: options.minPodSize,
+    maxPodSize: options.maxPodSize,
+    targetPodSize: Math.floor((options.minPodSize + options.maxPodSize) / 2),
+    interestCategories: interestCategories(taxonomy),
+    rules: rulesFile === null ? DEFAULT_RULES : parseRules(rulesFile),
+    spaces: readJsonArray<Space>(options.spaces)
+  };
+  const lookup = buildInterestLookup(taxonomy);
+  const profile = parseProfile(options.profile ? readJson(options.profile) : null);
+  const baseline = options.compare ? readJsonArray<BenchmarkResult>(options.compare) : [];
+  if (options.compare && baseline.length === 0) {
+    console.warn(`No earlier results in ${options.compare}; showing this run only`);
+  }
+
+  // Synthetic cohorts go through the same CSV loader as real sign-ups, from
+  // a scratch directory that is removed afterwards
+  const scratch = fs.mkdtempSync(path.join(os.tmpdir(), 'pods-benchmark-'));
+  const results: BenchmarkResult[] = [];
+  try {
+    options.sizes.forEach((size) => {
+      const csvPath = path.join(scratch, `synthetic-${size}.csv`);
+      writeText(csvPath, formatCohortCsv(generateCohort(size, options.seed, profile, taxonomy.interests.map((entry) => entry.name))));
+      console.log(`Matching ${size} synthetic student(s)...`);
+      results.push(runBenchmark(`synthetic-${size}`, csvPath, config, lookup));
+    });
+  } finally {
+    fs.rmSync(scratch, { recursive: true, force: true });
+  }
+  options.inputs.forEach((input) => {
+    console.log(`Matching ${input}...`);
+    results.push(runBenchmark(path.basename(input, '.csv'), input, config, lookup));
+  });
+
+  console.log('');
+  console.log(formatBenchmarkTable(results, baseline));
+  fs.mkdirSync(path.dirname(options.output), { recursive: true });
+  writeJson(options.output, results);
+  console.log('');
+  console.log(`Wrote results to ${options.output}; pass it to --compare after changing the matcher`);
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  if (error instanceof CliError) {
+    console.error(error.message);
+    console.error(BENCHMARK_USAGE);
+    process.exit(1);
+  }
+  if (error instanceof CohortError || error instanceof RosterError || error instanceof RulesError) {
+    console.error(error.message);
+    process.exit(1);
+  }
+  throw error;
+}
@@ -0,0 +1,129 @@
+import { Pod, Space, User } from './lib/types';
+import { CliError, EXPLAIN_USAGE, parseExplainArgs } from './lib/cli';
+import { readJsonArray } from './lib/io';
+import { MemberExplanation, PodExplanation, SharedInterest } from './lib/explain';
+import { CandidatePod, WaitlistEntry, WaitlistReason } from './lib/waitlist';
+import { normalizeEmail } from '../src/lib/emails';
+import { isVirtualZone } from '../src/lib/zones';
+
+function formatShared(entries: SharedInterest[], names: Map<string, string>): string {
+  return entries.map((entry) => `${entry.interest} (${entry.with.map((id) => names.get(id) || id).join(', ')})`).join(', ');
+}
+
+function printMember(member: MemberExplanation, explanation: PodExplanation, names: Map<string, string>): void {
+  console.log(
+    member.availability.length > 0
+      ? `  Time: ${explanation.timeslot} fits the availability they listed: ${member.availability.join(', ')}`
+      : `  Time: ${explanation.timeslot} is outside the times they listed now; they were kept from an earlier run`
+  );
+  console.log(
+    `  Shared interests: ${member.sharedInterests.length > 0 ? formatShared(member.sharedInterests, names) : 'none'}`
+  );
+  if (member.relatedInterests.length > 0) {
+    console.log(`  Related interests: ${formatShared(member.relatedInterests, names)}`);
+  }
+  if (member.rules.length === 0) {
+    console.log('  Rules: none of the matching rules involve their tags');
+  } else {
+    console.log('  Rules:');
+    member.rules.forEach((result) => console.log(`    ${result.ruleId}: ${result.status.replace('_', ' ')}, ${result.detail}`));
+  }
+}
+
+const WAITLIST_REASONS: Record<WaitlistReason, string> = {
+  zone_too_small: 'too few students in their zone',
+  no_slot_partners: 'too few students free at their times',
+  pods_full: 'the pods at their times are full',
+  preference_conflict: 'a do-not-match request',
+  interest_mismatch: 'no shared interests with students free at their times'
+};
+
+function describeCandidate(candidate: CandidatePod): string {
+  const reasons = [
+    candidate.slotMatch ? 'fits their availability' : 'outside their availability',
+    candidate.openSeats > 0 ? `${candidate.openSeats} open seat(s)` : 'full',
+    candidate.sharedInterests.length > 0 ? `shares ${candidate.sharedInterests.join(', ')}` : 'no shared interests'
+  ];
+  return `${candidate.podId} ${candidate.timeslot}: ${reasons.join(', ')}`;
+}
+
+function main(argv: string[]): void {
+  const options = parseExplainArgs(argv);
+  if (options.help) {
+    console.log(EXPLAIN_USAGE);
+    return;
+  }
+
+  const query = options.student!;
+  const users = readJsonArray<User>(options.users);
+  const waitlist = readJsonArray<WaitlistEntry>(options.waitlist);
+  const matches = (id: string, email: string) => id === query || (email && normalizeEmail(email) === normalizeEmail(query));
+  const user = users.find((u) => matches(u.id, u.email));
+  const waiting = waitlist.find((entry) => matches(entry.userId, entry.email));
+  const userId = user?.id ?? waiting?.userId;
+  if (!userId) {
+    console.log(`No student ${query} in ${options.users} or ${options.waitlist}.`);
+    console.log('Rows rejected by validation are listed in validation-report.txt; otherwise rerun `npm run match`.');
+    process.exitCode = 1;
+    return;
+  }
+  const names = new Map(users.map((u) => [u.id, u.name]));
+  const label = `${user?.name ?? waiting?.name ?? ''} (${userId})`.trim();
+
+  const pod = readJsonArray<Pod>(options.pods).find((entry) => entry.memberIds.includes(userId));
+  if (pod) {
+    const explanation = readJsonArray<PodExplanation>(options.explanations).find((entry) => entry.podId === pod.id);
+    const member = explanation?.members.find((entry) => entry.userId === userId);
+    console.log(`${label} is in ${pod.id}: ${pod.zone}, ${pod.timeslot}`);
+    if (explanation && member) {
+      console.log(`  Meetings run ${explanation.meetingMinutes} minutes with ${explanation.members.length - 1} pod mate(s)`);
+      printMember(member, explanation, names);
+    } else {
+      console.log(`  No explanation for ${pod.id} in ${options.explanations}; rerun \`npm run match\` to write one`);
+    }
+    const captain = pod.captainId ? names.get(pod.captainId) || pod.captainId : 'none assigned';
+    console.log(`  Captain: ${captain}`);
+    if (isVirtualZone(pod.zone)) {
+      console.log(`  Meets online: ${pod.meetingLink ?? 'link not set yet'}`);
+    } else {
+      const space = readJsonArray<Space>(options.spaces).find((entry) => entry.id === pod.spaceId);
+      console.log(`  Space: ${space ? space.name : 'none assigned'}`);
+    }
+    return;
+  }
+
+  if (waiting) {
+    console.log(`${label} is on the waitlist: ${WAITLIST_REASONS[waiting.reason] ?? waiting.reason} (${waiting.reason})`);
+    console.log(`  ${waiting.detail}`);
+    if (waiting.reason === 'preference_conflict') {
+      // Organizers see that a request exists, never who made it
+      console.log('  Who made the request stays private. Try another timeslot they listed, or a new pod at these times.');
+    }
+    console.log(`  Listed: ${waiting.zone}, ${waiting.times.join(', ') || 'no times'}; interests ${waiting.interests.join(', ') || 'none'}`);
+    if (waiting.candidatePods.length > 0) {
+      console.log('  Nearest pods:');
+      waiting.candidatePods.forEach((candidate) => console.log(`    ${describeCandidate(candidate)}`));
+    } else {
+      console.log(
+        waiting.reason === 'preference_conflict'
+          ? `  No other ${waiting.zone} pod they could join`
+          : `  No pods meet in ${waiting.zone} yet`
+      );
+    }
+    return;
+  }
+
+  console.log(`${label} is in ${options.users} but not in any pod or on the waitlist.`);
+  console.log('They may be a captain without a pod of their own, or the files are from different runs; rerun `npm run match`.');
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  if (error instanceof CliError) {
+    console.error(error.message);
+    console.error(EXPLAIN_USAGE);
+    process.exit(1);
+  }
+  throw error;
+}
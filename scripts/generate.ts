@@ -0,0 +1,39 @@
+import fs from 'fs';
+import path from 'path';
+import { CliError, GENERATE_USAGE, parseGenerateArgs } from './lib/cli';
+import { readJson, writeText } from './lib/io';
+import { CohortError, formatCohortCsv, generateCohort, parseProfile } from './lib/cohort';
+import { parseTaxonomy } from '../src/lib/interests';
+
+function main(argv: string[]): void {
+  const options = parseGenerateArgs(argv);
+  if (options.help) {
+    console.log(GENERATE_USAGE);
+    return;
+  }
+
+  const profile = parseProfile(options.profile ? readJson(options.profile) : null);
+  const interests = parseTaxonomy(readJson(options.interests)).interests.map((interest) => interest.name);
+  const rows = generateCohort(options.size, options.seed, profile, interests);
+  fs.mkdirSync(path.dirname(options.output), { recursive: true });
+  writeText(options.output, formatCohortCsv(rows));
+  const zones = new Map<string, number>();
+  rows.forEach((row) => zones.set(row.zone, (zones.get(row.zone) ?? 0) + 1));
+  console.log(`Wrote ${rows.length} synthetic student(s) to ${options.output} (seed ${options.seed})`);
+  console.log(`  ${Array.from(zones, ([zone, count]) => `${zone} ${count}`).join(', ')}`);
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  if (error instanceof CliError) {
+    console.error(error.message);
+    console.error(GENERATE_USAGE);
+    process.exit(1);
+  }
+  if (error instanceof CohortError) {
+    console.error(error.message);
+    process.exit(1);
+  }
+  throw error;
+}
@@ -0,0 +1,327 @@
+import type { CaptainApplication, ProgressKind, ProgressMark, PulseEntry } from '../../src/lib/storage/types';
+import { Pod, User } from './types';
+
+// Everything the app's HTTP storage backend (src/lib/storage/http.ts) reads
+// and writes, kept as one JSON document
+export interface ServerState {
+  progress: ProgressMark[];
+  // "<podId>:<week>" -> when the captain sent the quest
+  issuedQuests: Record<string, string>;
+  badges: Record<string, string[]>;
+  redeemed: Record<string, string[]>;
+  points: Record<string, number>;
+  applications: CaptainApplication[];
+  assignedCaptains: string[];
+  spaceAvailability: Record<string, boolean>;
+  selectedSpaces: Record<string, string>;
+  meetingLinks: Record<string, string>;
+  pulses: Record<string, PulseEntry[]>;
+  vibe: Record<string, number[]>;
+}
+
+export function emptyState(): ServerState {
+  return {
+    progress: [],
+    issuedQuests: {},
+    badges: {},
+    redeemed: {},
+    points: {},
+    applications: [],
+    assignedCaptains: [],
+    spaceAvailability: {},
+    selectedSpaces: {},
+    meetingLinks: {},
+    pulses: {},
+    vibe: {}
+  };
+}
+
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+export interface ApiRequest {
+  method: string;
+  // Below the API prefix, e.g. "/pods/pod-001/members"
+  path: string;
+  query: URLSearchParams;
+  body: unknown;
+}
+
+export interface ApiResponse {
+  status: number;
+  // Omitted for 204 No Content
+  body?: unknown;
+  // Whether the state changed and should be saved
+  changed: boolean;
+}
+
+// pods.json and users.json are read per request so a fresh `npm run match`
+// shows up without restarting the server
+export interface ApiContext {
+  state: ServerState;
+  pods: () => Pod[];
+  users: () => User[];
+}
+
+type Params = Record<string, string>;
+type Handler = (context: ApiContext, params: Params, request: ApiRequest) => { body?: unknown; changed?: boolean };
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every((item) => typeof item === 'string');
+const isNumberList = (value: unknown): value is number[] => Array.isArray(value) && value.every((item) => typeof item === 'number');
+const field = (body: unknown, key: string): unknown => (body && typeof body === 'object' ? (body as Record<string, unknown>)[key] : undefined);
+
+function parseWeek(value: string): number {
+  const week = Number(value);
+  if (!Number.isInteger(week) || week < 1) throw new ApiError(400, `"${value}" is not a week number`);
+  return week;
+}
+
+function findPod(context: ApiContext, podId: string): Pod {
+  const pod = context.pods().find((entry) => entry.id === podId);
+  if (!pod) throw new ApiError(404, `No pod ${podId}`);
+  return pod;
+}
+
+function sameMark(a: ProgressMark, b: ProgressMark): boolean {
+  return a.kind === b.kind && a.podId === b.podId && a.week === b.week && a.userId === b.userId;
+}
+
+function markFrom(params: Params): ProgressMark {
+  if (params.kind !== 'checkin' && params.kind !== 'quest') throw new ApiError(400, `Unknown progress kind "${params.kind}"`);
+  return { kind: params.kind as ProgressKind, podId: params.podId, week: parseWeek(params.week), userId: params.userId };
+}
+
+function isApplication(value: unknown): value is CaptainApplication {
+  const entry = value as Partial<CaptainApplication> | null;
+  return (
+    !!entry &&
+    typeof entry.id === 'string' &&
+    typeof entry.name === 'string' &&
+    typeof entry.email === 'string' &&
+    isStringList(entry.zones) &&
+    isStringList(entry.availability) &&
+    ['pending', 'approved', 'rejected'].includes(String(entry.status))
+  );
+}
+
+function setPoints(state: ServerState, userId: string, value: unknown): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new ApiError(400, 'Expected a number of points');
+  state.points[userId] = Math.max(Math.round(value), 0);
+  return state.points[userId];
+}
+
+const ROUTES: [string, string, Handler][] = [
+  // The pods and rosters the pages load from public/data
+  ['GET', '/pods', (context) => ({ body: context.pods() })],
+  ['GET', '/pods/:podId', (context, { podId }) => ({ body: findPod(context, podId) })],
+  [
+    'GET',
+    '/pods/:podId/members',
+    (context, { podId }) => {
+      const memberIds = findPod(context, podId).memberIds;
+      return { body: context.users().filter((user) => memberIds.includes(user.id)) };
+    }
+  ],
+
+  // Weekly check-ins and quest completions
+  [
+    'GET',
+    '/progress',
+    ({ state }, _params, { query }) => {
+      const podId = query.get('podId');
+      return { body: podId ? state.progress.filter((mark) => mark.podId === podId) : state.progress };
+    }
+  ],
+  [
+    'PUT',
+    '/progress/:kind/:podId/:week/:userId',
+    ({ state }, params) => {
+      const mark = markFrom(params);
+      if (state.progress.some((entry) => sameMark(entry, mark))) return {};
+      state.progress.push(mark);
+      return { changed: true };
+    }
+  ],
+  [
+    'DELETE',
+    '/progress/:kind/:podId/:week/:userId',
+    ({ state }, params) => {
+      const mark = markFrom(params);
+      const before = state.progress.length;
+      state.progress = state.progress.filter((entry) => !sameMark(entry, mark));
+      return { changed: state.progress.length !== before };
+    }
+  ],
+  [
+    'GET',
+    '/pods/:podId/quests/:week',
+    ({ state }, { podId, week }) => ({ body: { issuedAt: state.issuedQuests[`${podId}:${parseWeek(week)}`] ?? null } })
+  ],
+  [
+    'PUT',
+    '/pods/:podId/quests/:week',
+    ({ state }, { podId, week }) => {
+      state.issuedQuests[`${podId}:${parseWeek(week)}`] = new Date().toISOString();
+      return { changed: true };
+    }
+  ],
+  ['GET', '/users/:userId/badges', ({ state }, { userId }) => ({ body: state.badges[userId] ?? [] })],
+  [
+    'PUT',
+    '/users/:userId/badges/:badgeId',
+    ({ state }, { userId, badgeId }) => {
+      const current = state.badges[userId] ?? [];
+      if (current.includes(badgeId)) return { body: current };
+      state.badges[userId] = [...current, badgeId];
+      return { body: state.badges[userId], changed: true };
+    }
+  ],
+  ['GET', '/users/:userId/redeemed', ({ state }, { userId }) => ({ body: state.redeemed[userId] ?? [] })],
+  [
+    'PUT',
+    '/users/:userId/redeemed',
+    ({ state }, { userId }, { body }) => {
+      if (!isStringList(body)) throw new ApiError(400, 'Expected a list of reward IDs');
+      state.redeemed[userId] = body;
+      return { changed: true };
+    }
+  ],
+
+  // Points
+  ['GET', '/users/:userId/points', ({ state }, { userId }) => ({ body: { points: state.points[userId] ?? 0 } })],
+  [
+    'PUT',
+    '/users/:userId/points',
+    ({ state }, { userId }, { body }) => ({ body: { points: setPoints(state, userId, field(body, 'points')) }, changed: true })
+  ],
+  [
+    'POST',
+    '/users/:userId/points/adjust',
+    ({ state }, { userId }, { body }) => {
+      const delta = field(body, 'delta');
+      if (typeof delta !== 'number') throw new ApiError(400, 'Expected a number "delta"');
+      return { body: { points: setPoints(state, userId, (state.points[userId] ?? 0) + delta) }, changed: true };
+    }
+  ],
+
+  // Captain applications
+  ['GET', '/applications', ({ state }) => ({ body: state.applications })],
+  [
+    'PUT',
+    '/applications',
+    ({ state }, _params, { body }) => {
+      if (!Array.isArray(body) || !body.every(isApplication)) throw new ApiError(400, 'Expected a list of captain applications');
+      state.applications = body;
+      return { changed: true };
+    }
+  ],
+  ['GET', '/captains', ({ state }) => ({ body: state.assignedCaptains })],
+  [
+    'PUT',
+    '/captains/:email',
+    ({ state }, { email }) => {
+      if (state.assignedCaptains.includes(email)) return {};
+      state.assignedCaptains.push(email);
+      return { changed: true };
+    }
+  ],
+
+  // Space availability, a pod's chosen space and online meeting link
+  ['GET', '/spaces/availability', ({ state }) => ({ body: state.spaceAvailability })],
+  [
+    'PUT',
+    '/spaces/:spaceId/availability',
+    ({ state }, { spaceId }, { body }) => {
+      const available = field(body, 'available');
+      if (typeof available !== 'boolean') throw new ApiError(400, 'Expected "available": true or false');
+      state.spaceAvailability[spaceId] = available;
+      return { changed: true };
+    }
+  ],
+  ['GET', '/pods/:podId/space', ({ state }, { podId }) => ({ body: { spaceId: state.selectedSpaces[podId] ?? null } })],
+  [
+    'PUT',
+    '/pods/:podId/space',
+    ({ state }, { podId }, { body }) => {
+      const spaceId = field(body, 'spaceId');
+      if (typeof spaceId !== 'string' || !spaceId) throw new ApiError(400, 'Expected a "spaceId"');
+      state.selectedSpaces[podId] = spaceId;
+      return { changed: true };
+    }
+  ],
+  ['GET', '/pods/:podId/meeting-link', ({ state }, { podId }) => ({ body: { link: state.meetingLinks[podId] ?? null } })],
+  [
+    'PUT',
+    '/pods/:podId/meeting-link',
+    ({ state }, { podId }, { body }) => {
+      const link = field(body, 'link');
+      if (link === null || link === '') {
+        delete state.meetingLinks[podId];
+      } else if (typeof link === 'string' && /^https?:\/\//i.test(link)) {
+        state.meetingLinks[podId] = link;
+      } else {
+        throw new ApiError(400, 'Expected an http(s) "link" or null');
+      }
+      return { changed: true };
+    }
+  ],
+
+  // Belonging pulses and pod vibe
+  ['GET', '/users/:userId/pulses', ({ state }, { userId }) => ({ body: state.pulses[userId] ?? [] })],
+  [
+    'POST',
+    '/users/:userId/pulses',
+    ({ state }, { userId }, { body }) => {
+      const date = field(body, 'date');
+      const scores = field(body, 'scores');
+      if (typeof date !== 'string' || !isNumberList(scores)) throw new ApiError(400, 'Expected { date, scores }');
+      state.pulses[userId] = [...(state.pulses[userId] ?? []), { date, scores }];
+      return { body: state.pulses[userId], changed: true };
+    }
+  ],
+  ['GET', '/pods/:podId/vibe', ({ state }, { podId }) => ({ body: state.vibe[podId] ?? [] })],
+  [
+    'PUT',
+    '/pods/:podId/vibe',
+    ({ state }, { podId }, { body }) => {
+      if (!isNumberList(body)) throw new ApiError(400, 'Expected a list of weekly ratings');
+      state.vibe[podId] = body;
+      return { changed: true };
+    }
+  ]
+];
+
+function matchPath(pattern: string, path: string): Params | null {
+  const expected = pattern.split('/').filter(Boolean);
+  const actual = path.split('/').filter(Boolean);
+  if (expected.length !== actual.length) return null;
+  const params: Params = {};
+  for (let i = 0; i < expected.length; i++) {
+    if (expected[i].startsWith(':')) {
+      try {
+        params[expected[i].slice(1)] = decodeURIComponent(actual[i]);
+      } catch {
+        throw new ApiError(400, `"${actual[i]}" is not a valid path segment`);
+      }
+    } else if (expected[i] !== actual[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+// Route one request. Unknown paths are 404s, known paths with another
+// method are 405s, and handlers reject bad input with an ApiError.
+export function handleApiRequest(context: ApiContext, request: ApiRequest): ApiResponse {
+  const matches = ROUTES.map(([method, pattern, handler]) => ({ method, handler, params: matchPath(pattern, request.path) })).filter(
+    (route) => route.params !== null
+  );
+  if (matches.length === 0) throw new ApiError(404, `No route for ${request.path}`);
+  const route = matches.find((entry) => entry.method === request.method);
+  if (!route) throw new ApiError(405, `${request.method} is not supported on ${request.path}`);
+  const result = route.handler(context, route.params as Params, request);
+  return { status: result.body === undefined ? 204 : 200, body: result.body, changed: Boolean(result.changed) };
+}
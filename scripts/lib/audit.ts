@@ -0,0 +1,220 @@
+import { formatTagLabel } from '../../src/lib/tagOptions';
+import { Pod, User } from './types';
+
+export interface LoneMember {
+  podId: string;
+  zone: string;
+  userId: string;
+  tag: string;
+}
+
+export interface InterestOverlap {
+  pairs: number;
+  // Pod-mate pairs with at least one interest in common
+  sharingPairs: number;
+  meanShared: number;
+  // Members who share no interest with anyone in their pod
+  isolatedMembers: number;
+}
+
+export interface PodAudit {
+  podId: string;
+  zone: string;
+  timeslot: string;
+  size: number;
+  tags: Record<string, number>;
+  loneTags: string[];
+  interest: InterestOverlap;
+}
+
+export interface ZoneAudit {
+  zone: string;
+  pods: number;
+  students: number;
+  tags: Record<string, number>;
+  loneMembers: number;
+  sizeHistogram: Record<string, number>;
+  interest: InterestOverlap;
+}
+
+export interface AuditReport {
+  generatedAt: string;
+  pods: number;
+  students: number;
+  tags: Record<string, number>;
+  sizeHistogram: Record<string, number>;
+  interest: InterestOverlap;
+  zones: ZoneAudit[];
+  loneMembers: LoneMember[];
+  podAudits: PodAudit[];
+}
+
+// Free-text "other:" tags are too specific to count or flag
+const auditedTags = (user: User) => user.tags.filter((tag) => !tag.startsWith('other:'));
+
+function countTags(members: User[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  members.forEach((user) => auditedTags(user).forEach((tag) => (counts[tag] = (counts[tag] ?? 0) + 1)));
+  return counts;
+}
+
+function histogram(pods: PodAudit[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  pods.forEach((pod) => (counts[pod.size] = (counts[pod.size] ?? 0) + 1));
+  return counts;
+}
+
+function overlap(members: User[]): InterestOverlap {
+  let pairs = 0;
+  let sharingPairs = 0;
+  let shared = 0;
+  const connected = new Set<User>();
+  for (let i = 0; i < members.length; i++) {
+    for (let j = i + 1; j < members.length; j++) {
+      const common = members[i].interests.filter((interest) => members[j].interests.includes(interest)).length;
+      pairs++;
+      shared += common;
+      if (common > 0) {
+        sharingPairs++;
+        connected.add(members[i]);
+        connected.add(members[j]);
+      }
+    }
+  }
+  return { pairs, sharingPairs, meanShared: pairs > 0 ? shared / pairs : 0, isolatedMembers: members.length - connected.size };
+}
+
+const combine = (parts: InterestOverlap[]): InterestOverlap => {
+  const pairs = parts.reduce((sum, part) => sum + part.pairs, 0);
+  return {
+    pairs,
+    sharingPairs: parts.reduce((sum, part) => sum + part.sharingPairs, 0),
+    meanShared: pairs > 0 ? parts.reduce((sum, part) => sum + part.meanShared * part.pairs, 0) / pairs : 0,
+    isolatedMembers: parts.reduce((sum, part) => sum + part.isolatedMembers, 0)
+  };
+};
+
+// Composition of every pod as matched: who is in it by tag, who is the only
+// member with a tag, how sizes spread and how much pod mates have in common
+export function buildAudit(pods: Pod[], users: User[]): AuditReport {
+  const usersById = new Map(users.map((u) => [u.id, u]));
+  const membersOf = (pod: Pod) => pod.memberIds.map((id) => usersById.get(id)).filter((u): u is User => u !== undefined);
+  const loneMembers: LoneMember[] = [];
+  const podAudits = pods.map((pod) => {
+    const members = membersOf(pod);
+    const tags = countTags(members);
+    const loneTags = Object.keys(tags).filter((tag) => tags[tag] === 1).sort();
+    loneTags.forEach((tag) =>
+      loneMembers.push({ podId: pod.id, zone: pod.zone, userId: members.find((u) => u.tags.includes(tag))!.id, tag })
+    );
+    return { podId: pod.id, zone: pod.zone, timeslot: pod.timeslot, size: pod.memberIds.length, tags, loneTags, interest: overlap(members) };
+  });
+
+  const zones = Array.from(new Set(pods.map((pod) => pod.zone))).map((zone) => {
+    const zonePods = podAudits.filter((pod) => pod.zone === zone);
+    return {
+      zone,
+      pods: zonePods.length,
+      students: zonePods.reduce((sum, pod) => sum + pod.size, 0),
+      tags: countTags(pods.filter((pod) => pod.zone === zone).flatMap(membersOf)),
+      loneMembers: loneMembers.filter((entry) => entry.zone === zone).length,
+      sizeHistogram: histogram(zonePods),
+      interest: combine(zonePods.map((pod) => pod.interest))
+    };
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    pods: pods.length,
+    students: podAudits.reduce((sum, pod) => sum + pod.size, 0),
+    tags: countTags(pods.flatMap(membersOf)),
+    sizeHistogram: histogram(podAudits),
+    interest: combine(podAudits.map((pod) => pod.interest)),
+    zones,
+    loneMembers,
+    podAudits
+  };
+}
+
+const percent = (part: number, whole: number) => (whole > 0 ? `${Math.round((100 * part) / whole)}%` : '—');
+
+const table = (header: string[], rows: (string | number)[][]) => [
+  `| ${header.join(' | ')} |`,
+  `| ${header.map(() => '---').join(' | ')} |`,
+  ...rows.map((row) => `| ${row.join(' | ')} |`)
+];
+
+// Markdown version for pilot reports. Students are counted, never named;
+// the JSON report carries user IDs for coordinators who need to follow up.
+export function formatAuditMarkdown(report: AuditReport): string {
+  const zoneNames = report.zones.map((zone) => zone.zone);
+  const sizes = Object.keys(report.sizeHistogram).sort((a, b) => Number(a) - Number(b));
+  const tags = Object.keys(report.tags).sort();
+  const lines = [
+    '# Pod fairness audit',
+    '',
+    `Generated ${report.generatedAt} · ${report.pods} pod(s) · ${report.students} student(s)`,
+    '',
+    '## Pod sizes',
+    '',
+    ...table(
+      ['Size', ...zoneNames, 'All'],
+      sizes.map((size) => [size, ...report.zones.map((zone) => zone.sizeHistogram[size] ?? 0), report.sizeHistogram[size]])
+    ),
+    '',
+    '## Tags by zone',
+    '',
+    ...(tags.length > 0
+      ? table(
+          ['Tag', ...zoneNames, 'All'],
+          tags.map((tag) => [formatTagLabel(tag), ...report.zones.map((zone) => zone.tags[tag] ?? 0), report.tags[tag]])
+        )
+      : ['No tagged students.']),
+    '',
+    '## Lone members',
+    '',
+    'Pods where exactly one student has a tag.',
+    '',
+    ...(report.loneMembers.length > 0
+      ? table(
+          ['Pod', 'Zone', 'Tag'],
+          report.loneMembers.map((entry) => [entry.podId, entry.zone, formatTagLabel(entry.tag)])
+        )
+      : ['None.']),
+    '',
+    '## Interest overlap',
+    '',
+    `${percent(report.interest.sharingPairs, report.interest.pairs)} of pod-mate pairs share at least one interest; ` +
+      `${report.interest.meanShared.toFixed(2)} shared interest(s) per pair on average; ` +
+      `${report.interest.isolatedMembers} student(s) share no interest with anyone in their pod.`,
+    '',
+    ...table(
+      ['Zone', 'Pairs sharing', 'Mean shared', 'Sharing nothing'],
+      report.zones.map((zone) => [
+        zone.zone,
+        percent(zone.interest.sharingPairs, zone.interest.pairs),
+        zone.interest.meanShared.toFixed(2),
+        zone.interest.isolatedMembers
+      ])
+    ),
+    '',
+    '## Pods',
+    '',
+    ...table(
+      ['Pod', 'Zone', 'Time', 'Size', 'Tags', 'Pairs sharing', 'Sharing nothing'],
+      report.podAudits.map((pod) => [
+        pod.podId,
+        pod.zone,
+        pod.timeslot,
+        pod.size,
+        Object.keys(pod.tags)
+          .sort()
+          .map((tag) => `${formatTagLabel(tag)} ×${pod.tags[tag]}`)
+          .join(', ') || '—',
+        percent(pod.interest.sharingPairs, pod.interest.pairs),
+        pod.interest.isolatedMembers
+      ])
+    )
+  ];
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,41 @@
+import { MatchConfig, User } from './types';
+import { TimeWindow, availabilityWindows, canMeetAt, formatTimeslot, normalizeTimeslot } from '../../src/lib/timeslots';
+
+// Parsing windows is cheap but the optimizer asks the same questions
+// thousands of times, so answers are memoized per student
+const windowCache = new WeakMap<User, TimeWindow[]>();
+const fitCache = new WeakMap<User, Map<string, boolean>>();
+
+export function userWindows(user: User): TimeWindow[] {
+  let windows = windowCache.get(user);
+  if (!windows) {
+    windows = availabilityWindows(user.times);
+    windowCache.set(user, windows);
+  }
+  return windows;
+}
+
+// Whether a pod meeting at `slot` fits inside the student's availability
+export function canMeet(user: User, slot: string, config: MatchConfig): boolean {
+  let fits = fitCache.get(user);
+  if (!fits) {
+    fits = new Map();
+    fitCache.set(user, fits);
+  }
+  const key = `${slot}/${config.meetingMinutes}`;
+  let answer = fits.get(key);
+  if (answer === undefined) {
+    answer = canMeetAt(userWindows(user), slot, config.meetingMinutes);
+    fits.set(key, answer);
+  }
+  return answer;
+}
+
+// Meeting times worth trying for these students: the times they picked
+// first, then the start of each window. Any overlap between windows begins
+// at one of those starts, so no shared meeting time is missed.
+export function meetingSlots(users: User[]): string[] {
+  const picked = users.flatMap((u) => u.times.map(normalizeTimeslot).filter((slot): slot is string => slot !== null));
+  const starts = users.flatMap((u) => userWindows(u).map((window) => formatTimeslot(window.day, window.start)));
+  return Array.from(new Set([...picked, ...starts]));
+}
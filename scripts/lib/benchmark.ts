@@ -0,0 +1,107 @@
+import { performance } from 'perf_hooks';
+import { InterestLookup } from '../../src/lib/interests';
+import { MatchConfig } from './types';
+import { loadStudents } from './users';
+import { optimizeMatch } from './optimizer';
+import { toPods } from './pods';
+import { buildRulesReport } from './rules';
+import { buildAudit } from './audit';
+import { buddyMatches, hasConflict } from './preferences';
+
+export interface BenchmarkResult {
+  label: string;
+  students: number;
+  loadMs: number;
+  matchMs: number;
+  pods: number;
+  matched: number;
+  matchRate: number;
+  meanPodSize: number;
+  seedScore: number;
+  score: number;
+  passes: number;
+  // Fairness: share of pod-mate pairs with a common interest, students who
+  // share none, pods where one student is alone with a tag, rule misses
+  pairSharingRate: number;
+  isolatedStudents: number;
+  loneMembers: number;
+  ruleViolations: Record<string, number>;
+  buddiesHonoured: number;
+  buddiesRequested: number;
+  conflicts: number;
+}
+
+// Load and match one students CSV the way `npm run match` does, timing both
+export function runBenchmark(label: string, csvPath: string, config: MatchConfig, interests: InterestLookup): BenchmarkResult {
+  const loadStart = performance.now();
+  const { users } = loadStudents(csvPath, interests);
+  const matchStart = performance.now();
+  const result = optimizeMatch(users, config);
+  const matchEnd = performance.now();
+
+  const pods = toPods(result.pods);
+  const audit = buildAudit(pods, users);
+  const ruleViolations: Record<string, number> = {};
+  config.rules.forEach((rule) => (ruleViolations[rule.id] = 0));
+  buildRulesReport(pods, users, config).forEach((pod) =>
+    pod.results.filter((entry) => entry.status === 'violated').forEach((entry) => (ruleViolations[entry.ruleId] += 1))
+  );
+  const matched = users.length - result.unmatched.length;
+  return {
+    label,
+    students: users.length,
+    loadMs: matchStart - loadStart,
+    matchMs: matchEnd - matchStart,
+    pods: pods.length,
+    matched,
+    matchRate: users.length > 0 ? matched / users.length : 0,
+    meanPodSize: pods.length > 0 ? matched / pods.length : 0,
+    seedScore: result.seedScore.total,
+    score: result.score.total,
+    passes: result.passes,
+    pairSharingRate: audit.interest.pairs > 0 ? audit.interest.sharingPairs / audit.interest.pairs : 0,
+    isolatedStudents: audit.interest.isolatedMembers,
+    loneMembers: audit.loneMembers.length,
+    ruleViolations,
+    buddiesHonoured: result.pods.reduce((sum, pod) => sum + buddyMatches(pod.members), 0),
+    buddiesRequested: users.reduce((sum, u) => sum + (u.buddyIds ?? []).length, 0),
+    conflicts: result.pods.filter((pod) => hasConflict(pod.members)).length
+  };
+}
+
+const ROWS: [string, (result: BenchmarkResult) => number, (value: number) => string][] = [
+  ['students', (r) => r.students, (v) => String(v)],
+  ['load ms', (r) => r.loadMs, (v) => v.toFixed(0)],
+  ['match ms', (r) => r.matchMs, (v) => v.toFixed(0)],
+  ['pods', (r) => r.pods, (v) => String(v)],
+  ['match rate', (r) => r.matchRate, (v) => `${(100 * v).toFixed(1)}%`],
+  ['mean pod size', (r) => r.meanPodSize, (v) => v.toFixed(2)],
+  ['seed score', (r) => r.seedScore, (v) => v.toFixed(1)],
+  ['score', (r) => r.score, (v) => v.toFixed(1)],
+  ['passes', (r) => r.passes, (v) => String(v)],
+  ['pairs sharing', (r) => r.pairSharingRate, (v) => `${(100 * v).toFixed(1)}%`],
+  ['sharing nothing', (r) => r.isolatedStudents, (v) => String(v)],
+  ['lone members', (r) => r.loneMembers, (v) => String(v)],
+  ['buddies kept', (r) => (r.buddiesRequested > 0 ? r.buddiesHonoured / r.buddiesRequested : 0), (v) => `${(100 * v).toFixed(1)}%`],
+  ['do-not-match breaks', (r) => r.conflicts, (v) => String(v)]
+];
+
+// One column per cohort. With a baseline from an earlier run, each cell
+// also shows the change against the cohort with the same label.
+export function formatBenchmarkTable(results: BenchmarkResult[], baseline: BenchmarkResult[] = []): string {
+  const previous = new Map(baseline.map((result) => [result.label, result]));
+  const ruleIds = Array.from(new Set(results.flatMap((result) => Object.keys(result.ruleViolations))));
+  const rows = [
+    ...ROWS,
+    ...ruleIds.map((id): (typeof ROWS)[number] => [`${id} misses`, (r) => r.ruleViolations[id] ?? 0, (v) => String(v)])
+  ];
+  const cell = (result: BenchmarkResult, [, read, format]: (typeof ROWS)[number]) => {
+    const before = previous.get(result.label);
+    if (!before) return format(read(result));
+    const delta = read(result) - read(before);
+    return `${format(read(result))} (${delta >= 0 ? '+' : ''}${format(delta)})`;
+  };
+  const table = [['', ...results.map((result) => result.label)], ...rows.map((row) => [row[0], ...results.map((result) => cell(result, row))])];
+  const widths = table[0].map((_, column) => Math.max(...table.map((line) => line[column].length)));
+  return table.map((line) => line.map((value, column) => value.padEnd(widths[column])).join('  ').trimEnd()).join('\n');
+}
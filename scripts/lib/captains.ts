@@ -0,0 +1,137 @@
+import { captainFitsSlot, captainFitsVirtual } from '../../src/lib/captains';
+import { isVirtualZone } from '../../src/lib/zones';
+import { CaptainRecord, Pod, User } from './types';
+import { userIdForEmail } from './users';
+import { normalizeEmail } from '../../src/lib/emails';
+
+// An approved captain with the user ID pods.json will point at
+export interface Captain {
+  userId: string;
+  name: string;
+  email: string;
+  zones: string[];
+  availability: string[];
+}
+
+export type UnassignedReason = 'no_captain_in_zone' | 'no_captain_available' | 'captains_exhausted';
+
+export interface UnassignedPod {
+  podId: string;
+  zone: string;
+  timeslot: string;
+  reason: UnassignedReason;
+  detail: string;
+}
+
+export interface CaptainAssignment {
+  pods: Pod[];
+  unassigned: UnassignedPod[];
+}
+
+// Approved captains from captains.json. A captain who is also a student
+// keeps their roster ID; anyone else gets the same email-derived ID a
+// students.csv row would.
+export function approvedCaptains(records: CaptainRecord[], users: User[]): Captain[] {
+  const idsByEmail = new Map(users.map((u) => [normalizeEmail(u.email), u.id]));
+  const seen = new Set<string>();
+  return records
+    .filter((record) => record.status === 'approved' && typeof record.email === 'string' && record.email.trim())
+    .map((record) => {
+      const email = normalizeEmail(record.email);
+      return {
+        userId: idsByEmail.get(email) ?? userIdForEmail(email),
+        name: record.name,
+        email,
+        zones: Array.isArray(record.zones) ? record.zones : [],
+        availability: Array.isArray(record.availability) ? record.availability : []
+      };
+    })
+    .filter((captain) => {
+      if (seen.has(captain.userId)) return false;
+      seen.add(captain.userId);
+      return true;
+    });
+}
+
+// Any captain who offered Virtual can lead an online pod, whatever their campus
+const coversZone = (captain: Captain, zone: string) =>
+  isVirtualZone(zone) ? captain.availability.includes('Virtual') : captain.zones.includes(zone);
+
+const canLead = (captain: Captain, pod: Pod) =>
+  isVirtualZone(pod.zone)
+    ? captainFitsVirtual(captain.availability, pod.timeslot)
+    : captain.zones.includes(pod.zone) && captainFitsSlot(captain.availability, pod.timeslot);
+
+function explainUnassigned(pod: Pod, captains: Captain[]): UnassignedPod {
+  const base = { podId: pod.id, zone: pod.zone, timeslot: pod.timeslot };
+  const inZone = captains.filter((captain) => coversZone(captain, pod.zone));
+  if (inZone.length === 0) {
+    return { ...base, reason: 'no_captain_in_zone', detail: `No approved captain covers ${pod.zone}.` };
+  }
+  const fitting = inZone.filter((captain) => canLead(captain, pod));
+  if (fitting.length === 0) {
+    return {
+      ...base,
+      reason: 'no_captain_available',
+      detail: `${inZone.length} ${pod.zone} captain(s), none available ${pod.timeslot}.`
+    };
+  }
+  return {
+    ...base,
+    reason: 'captains_exhausted',
+    detail: `${fitting.length} captain(s) could lead it but already lead other pods.`
+  };
+}
+
+// Give each pod at most one captain and each captain at most one pod.
+// Pods keep a captain who still fits; the rest are filled scarcest first,
+// preferring a captain who is already a member, then the captain with the
+// fewest other options. `taken` holds captains leading pods elsewhere.
+export function assignCaptains(pods: Pod[], captains: Captain[], taken: Set<string> = new Set()): CaptainAssignment {
+  const busy = new Set(taken);
+  const captainsById = new Map(captains.map((captain) => [captain.userId, captain]));
+  const assigned = new Map<Pod, string | null>();
+
+  pods.forEach((pod) => {
+    const current = pod.captainId ? captainsById.get(pod.captainId) : undefined;
+    if (current && !busy.has(current.userId) && canLead(current, pod)) {
+      assigned.set(pod, current.userId);
+      busy.add(current.userId);
+    }
+  });
+
+  const options = (pod: Pod) => captains.filter((captain) => !busy.has(captain.userId) && canLead(captain, pod));
+  const open = pods.filter((pod) => !assigned.has(pod));
+  while (open.length > 0) {
+    open.sort((a, b) => options(a).length - options(b).length);
+    const pod = open.shift()!;
+    const candidates = options(pod);
+    if (candidates.length === 0) {
+      assigned.set(pod, null);
+      continue;
+    }
+    const flexibility = (captain: Captain) => open.filter((other) => canLead(captain, other)).length;
+    const member = (captain: Captain) => (pod.memberIds.includes(captain.userId) ? 0 : 1);
+    const choice = [...candidates].sort((a, b) => member(a) - member(b) || flexibility(a) - flexibility(b))[0];
+    assigned.set(pod, choice.userId);
+    busy.add(choice.userId);
+  }
+
+  return {
+    pods: pods.map((pod) => ({ ...pod, captainId: assigned.get(pod) ?? null })),
+    unassigned: pods.filter((pod) => !assigned.get(pod)).map((pod) => explainUnassigned(pod, captains))
+  };
+}
+
+// Roster entries for captains who are not students, so the dashboard can
+// show their name instead of "Captain TBD"
+export function captainUsers(captains: Captain[], pods: Pod[], roster: User[]): User[] {
+  const known = new Set(roster.map((u) => u.id));
+  return captains
+    .filter((captain) => !known.has(captain.userId))
+    .flatMap((captain) => {
+      const pod = pods.find((p) => p.captainId === captain.userId);
+      if (!pod) return [];
+      return [{ id: captain.userId, name: captain.name, email: captain.email, zone: pod.zone, interests: [], times: [], tags: [] }];
+    });
+}
@@ -0,0 +1,755 @@
+import path from 'path';
+import { MEETING_MINUTES } from '../../src/lib/timeslots';
+
+export interface MatchCliOptions {
+  input: string;
+  output: string;
+  users: string;
+  waitlist: string;
+  report: string;
+  interests: string;
+  rules: string;
+  rulesReport: string;
+  explanations: string;
+  spaces: string;
+  captains: string;
+  unassigned: string;
+  unseated: string;
+  minPodSize: number;
+  maxPodSize: number;
+  meetingMinutes: number;
+  meetingLink: string | null;
+  commuterPriority: boolean;
+  incremental: boolean;
+  dryRun: boolean;
+  seed: number | null;
+  zone: string | null;
+  help: boolean;
+}
+
+export const REPO_ROOT = path.join(__dirname, '..', '..');
+const DATA_DIR = path.join(REPO_ROOT, 'public', 'data');
+// Files that name students stay out of public/, which the app serves as is
+const PRIVATE_DIR = path.join(REPO_ROOT, 'data');
+const COHORTS_DIR = path.join(REPO_ROOT, 'cohorts');
+
+export const MATCH_USAGE = `Usage: npm run match -- [options]
+
+Options:
+  --input <path>          students CSV to read (default data/students.csv)
+  --output <path>         pods JSON to write (default public/data/pods.json)
+  --users <path>          roster JSON to write (default public/data/users.json)
+  --waitlist <path>       waitlist JSON to write (default public/data/waitlist.json)
+  --report <path>         CSV validation report to write (default data/validation-report.txt)
+  --interests <path>      interest taxonomy to match with (default public/data/interests.json)
+  --rules <path>          barrier-aware matching rules (default public/data/matching-rules.json)
+  --rules-report <path>   per-pod rule results to write (default public/data/rules-report.json)
+  --explanations <path>   why each member is in their pod (default public/data/pod-explanations.json)
+  --spaces <path>         meeting spaces to assign pods to (default public/data/spaces.json)
+  --unseated <path>       pods left without a space (default public/data/unseated-pods.json)
+  --captains <path>       approved captain roster to assign (default public/data/captains.json)
+  --unassigned <path>     pods left without a captain (default public/data/unassigned-pods.json)
+  --min-size <n>          smallest pod the matcher may form (default 5)
+  --max-size <n>          largest pod the matcher may form (default 8)
+  --meeting-minutes <n>   minutes every member's availability must cover (default 45)
+  --meeting-link <url>    link for new virtual pods; {podId} is replaced with the pod ID
+  --zone <name>           match a single campus; pods for other zones are left as they are
+  --seed <n>              shuffle students with a fixed seed for reproducible tie-breaking
+  --incremental           keep existing pods and only place students not in one yet
+  --no-commuter-priority  ignore prefer_midday rules (midday slots for commuters)
+  --dry-run               print a summary without writing any files
+  --help                  show this message`;
+
+export class CliError extends Error {}
+
+const parseInteger = (flag: string, value: string | undefined): number => {
+  const parsed = Number(value);
+  if (value === undefined || !Number.isInteger(parsed)) {
+    throw new CliError(`${flag} expects a whole number, got "${value ?? ''}"`);
+  }
+  return parsed;
+};
+
+// Walk argv one flag at a time, supporting both "--flag value" and
+// "--flag=value"; `value()` consumes the flag's argument
+function readFlags(argv: string[], handle: (flag: string, value: () => string, arg: string) => void): void {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const eq = arg.indexOf('=');
+    const flag = arg.startsWith('--') && eq > 0 ? arg.slice(0, eq) : arg;
+    const inline = flag !== arg ? arg.slice(eq + 1) : undefined;
+    const value = () => {
+      if (inline !== undefined) return inline;
+      const next = argv[++i];
+      if (next === undefined || next.startsWith('--')) {
+        throw new CliError(`${flag} expects a value`);
+      }
+      return next;
+    };
+    handle(flag, value, arg);
+  }
+}
+
+export function parseMatchArgs(argv: string[]): MatchCliOptions {
+  const options: MatchCliOptions = {
+    input: path.join(PRIVATE_DIR, 'students.csv'),
+    output: path.join(DATA_DIR, 'pods.json'),
+    users: path.join(DATA_DIR, 'users.json'),
+    waitlist: path.join(DATA_DIR, 'waitlist.json'),
+    report: path.join(PRIVATE_DIR, 'validation-report.txt'),
+    interests: path.join(DATA_DIR, 'interests.json'),
+    rules: path.join(DATA_DIR, 'matching-rules.json'),
+    rulesReport: path.join(DATA_DIR, 'rules-report.json'),
+    explanations: path.join(DATA_DIR, 'pod-explanations.json'),
+    spaces: path.join(DATA_DIR, 'spaces.json'),
+    captains: path.join(DATA_DIR, 'captains.json'),
+    unassigned: path.join(DATA_DIR, 'unassigned-pods.json'),
+    unseated: path.join(DATA_DIR, 'unseated-pods.json'),
+    minPodSize: 5,
+    maxPodSize: 8,
+    meetingMinutes: MEETING_MINUTES,
+    meetingLink: null,
+    commuterPriority: true,
+    incremental: false,
+    dryRun: false,
+    seed: null,
+    zone: null,
+    help: false
+  };
+
+  readFlags(argv, (flag, value, arg) => {
+    switch (flag) {
+      case '--input':
+        options.input = path.resolve(value());
+        break;
+      case '--output':
+        options.output = path.resolve(value());
+        break;
+      case '--users':
+        options.users = path.resolve(value());
+        break;
+      case '--waitlist':
+        options.waitlist = path.resolve(value());
+        break;
+      case '--report':
+        options.report = path.resolve(value());
+        break;
+      case '--interests':
+        options.interests = path.resolve(value());
+        break;
+      case '--rules':
+        options.rules = path.resolve(value());
+        break;
+      case '--rules-report':
+        options.rulesReport = path.resolve(value());
+        break;
+      case '--explanations':
+        options.explanations = path.resolve(value());
+        break;
+      case '--spaces':
+        options.spaces = path.resolve(value());
+        break;
+      case '--captains':
+        options.captains = path.resolve(value());
+        break;
+      case '--unassigned':
+        options.unassigned = path.resolve(value());
+        break;
+      case '--unseated':
+        options.unseated = path.resolve(value());
+        break;
+      case '--min-size':
+        options.minPodSize = parseInteger(flag, value());
+        break;
+      case '--max-size':
+        options.maxPodSize = parseInteger(flag, value());
+        break;
+      case '--meeting-minutes':
+        options.meetingMinutes = parseInteger(flag, value());
+        break;
+      case '--meeting-link':
+        options.meetingLink = value().trim();
+        break;
+      case '--zone':
+        options.zone = value().trim();
+        break;
+      case '--seed':
+        options.seed = parseInteger(flag, value());
+        break;
+      case '--incremental':
+        options.incremental = true;
+        break;
+      case '--no-commuter-priority':
+        options.commuterPriority = false;
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      default:
+        throw new CliError(`Unknown option "${arg}"`);
+    }
+  });
+
+  if (options.minPodSize < 2) {
+    throw new CliError('--min-size must be at least 2');
+  }
+  if (options.maxPodSize < options.minPodSize) {
+    throw new CliError('--max-size must be greater than or equal to --min-size');
+  }
+  if (options.meetingMinutes < 1) {
+    throw new CliError('--meeting-minutes must be at least 1');
+  }
+  if (options.meetingLink !== null && !/^https?:\/\//.test(options.meetingLink)) {
+    throw new CliError('--meeting-link expects an http(s) URL');
+  }
+  if (options.zone === '') {
+    throw new CliError('--zone expects a campus name');
+  }
+  return options;
+}
+
+export interface RebalanceCliOptions {
+  pods: string;
+  users: string;
+  input: string;
+  interests: string;
+  spaces: string;
+  checkins: string | null;
+  week: number | null;
+  inactiveWeeks: number;
+  minPodSize: number;
+  maxPodSize: number;
+  zone: string | null;
+  yes: boolean;
+  help: boolean;
+}
+
+export const REBALANCE_USAGE = `Usage: npm run rebalance -- --checkins <path> [options]
+
+Options:
+  --checkins <path>       attendance exported from the Captain Console (required)
+  --pods <path>           pods JSON to rebalance (default public/data/pods.json)
+  --users <path>          roster JSON for member names (default public/data/users.json)
+  --input <path>          students CSV with do-not-match requests (default data/students.csv)
+  --interests <path>      interest taxonomy the CSV is read with (default public/data/interests.json)
+  --spaces <path>         meeting spaces, so merged pods still fit their room (default public/data/spaces.json)
+  --week <n>              semester week to judge attendance at (default the export's week)
+  --inactive-weeks <n>    weeks without a check-in before a member counts as inactive (default 3)
+  --min-size <n>          pods with fewer active members are merged away (default 5)
+  --max-size <n>          largest pod a merge may produce (default 8)
+  --zone <name>           only rebalance a single campus
+  --yes                   apply the proposal without asking
+  --help                  show this message`;
+
+export function parseRebalanceArgs(argv: string[]): RebalanceCliOptions {
+  const options: RebalanceCliOptions = {
+    pods: path.join(DATA_DIR, 'pods.json'),
+    users: path.join(DATA_DIR, 'users.json'),
+    input: path.join(PRIVATE_DIR, 'students.csv'),
+    interests: path.join(DATA_DIR, 'interests.json'),
+    spaces: path.join(DATA_DIR, 'spaces.json'),
+    checkins: null,
+    week: null,
+    inactiveWeeks: 3,
+    minPodSize: 5,
+    maxPodSize: 8,
+    zone: null,
+    yes: false,
+    help: false
+  };
+
+  readFlags(argv, (flag, value, arg) => {
+    switch (flag) {
+      case '--checkins':
+        options.checkins = path.resolve(value());
+        break;
+      case '--pods':
+        options.pods = path.resolve(value());
+        break;
+      case '--users':
+        options.users = path.resolve(value());
+        break;
+      case '--input':
+        options.input = path.resolve(value());
+        break;
+      case '--interests':
+        options.interests = path.resolve(value());
+        break;
+      case '--spaces':
+        options.spaces = path.resolve(value());
+        break;
+      case '--week':
+        options.week = parseInteger(flag, value());
+        break;
+      case '--inactive-weeks':
+        options.inactiveWeeks = parseInteger(flag, value());
+        break;
+      case '--min-size':
+        options.minPodSize = parseInteger(flag, value());
+        break;
+      case '--max-size':
+        options.maxPodSize = parseInteger(flag, value());
+        break;
+      case '--zone':
+        options.zone = value().trim();
+        break;
+      case '--yes':
+      case '-y':
+        options.yes = true;
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      default:
+        throw new CliError(`Unknown option "${arg}"`);
+    }
+  });
+
+  if (options.help) return options;
+  if (options.checkins === null) {
+    throw new CliError("--checkins is required; export it from the Captain Console's Members tab");
+  }
+  if (options.week !== null && options.week < 1) {
+    throw new CliError('--week must be at least 1');
+  }
+  if (options.inactiveWeeks < 1) {
+    throw new CliError('--inactive-weeks must be at least 1');
+  }
+  if (options.minPodSize < 2) {
+    throw new CliError('--min-size must be at least 2');
+  }
+  if (options.maxPodSize < options.minPodSize) {
+    throw new CliError('--max-size must be greater than or equal to --min-size');
+  }
+  if (options.zone === '') {
+    throw new CliError('--zone expects a campus name');
+  }
+  return options;
+}
+
+export interface ExplainCliOptions {
+  student: string | null;
+  pods: string;
+  users: string;
+  waitlist: string;
+  explanations: string;
+  spaces: string;
+  help: boolean;
+}
+
+export const EXPLAIN_USAGE = `Usage: npm run explain -- <user ID or email> [options]
+
+Options:
+  --pods <path>           pods JSON the match wrote (default public/data/pods.json)
+  --users <path>          roster JSON the match wrote (default public/data/users.json)
+  --waitlist <path>       waitlist JSON the match wrote (default public/data/waitlist.json)
+  --explanations <path>   per-pod explanations the match wrote (default public/data/pod-explanations.json)
+  --spaces <path>         meeting spaces, for the pod's home space name (default public/data/spaces.json)
+  --help                  show this message`;
+
+export function parseExplainArgs(argv: string[]): ExplainCliOptions {
+  const options: ExplainCliOptions = {
+    student: null,
+    pods: path.join(DATA_DIR, 'pods.json'),
+    users: path.join(DATA_DIR, 'users.json'),
+    waitlist: path.join(DATA_DIR, 'waitlist.json'),
+    explanations: path.join(DATA_DIR, 'pod-explanations.json'),
+    spaces: path.join(DATA_DIR, 'spaces.json'),
+    help: false
+  };
+
+  readFlags(argv, (flag, value, arg) => {
+    switch (flag) {
+      case '--pods':
+        options.pods = path.resolve(value());
+        break;
+      case '--users':
+        options.users = path.resolve(value());
+        break;
+      case '--waitlist':
+        options.waitlist = path.resolve(value());
+        break;
+      case '--explanations':
+        options.explanations = path.resolve(value());
+        break;
+      case '--spaces':
+        options.spaces = path.resolve(value());
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      default:
+        if (arg.startsWith('-') || options.student !== null) {
+          throw new CliError(`Unknown option "${arg}"`);
+        }
+        options.student = arg.trim();
+    }
+  });
+
+  if (!options.help && !options.student) {
+    throw new CliError('Give the user ID or email of the student to explain');
+  }
+  return options;
+}
+
+export interface AuditCliOptions {
+  pods: string;
+  users: string;
+  markdown: string;
+  json: string;
+  zone: string | null;
+  help: boolean;
+}
+
+export const AUDIT_USAGE = `Usage: npm run audit -- [options]
+
+Options:
+  --pods <path>           pods JSON to audit (default public/data/pods.json)
+  --users <path>          roster JSON with member tags and interests (default public/data/users.json)
+  --markdown <path>       Markdown report to write (default public/data/fairness-audit.md)
+  --json <path>           JSON report to write (default public/data/fairness-audit.json)
+  --zone <name>           audit a single campus
+  --help                  show this message`;
+
+export function parseAuditArgs(argv: string[]): AuditCliOptions {
+  const options: AuditCliOptions = {
+    pods: path.join(DATA_DIR, 'pods.json'),
+    users: path.join(DATA_DIR, 'users.json'),
+    markdown: path.join(DATA_DIR, 'fairness-audit.md'),
+    json: path.join(DATA_DIR, 'fairness-audit.json'),
+    zone: null,
+    help: false
+  };
+
+  readFlags(argv, (flag, value, arg) => {
+    switch (flag) {
+      case '--pods':
+        options.pods = path.resolve(value());
+        break;
+      case '--users':
+        options.users = path.resolve(value());
+        break;
+      case '--markdown':
+        options.markdown = path.resolve(value());
+        break;
+      case '--json':
+        options.json = path.resolve(value());
+        break;
+      case '--zone':
+        options.zone = value().trim();
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      default:
+        throw new CliError(`Unknown option "${arg}"`);
+    }
+  });
+
+  if (options.zone === '') {
+    throw new CliError('--zone expects a campus name');
+  }
+  return options;
+}
+
+export interface GenerateCliOptions {
+  size: number;
+  seed: number;
+  profile: string | null;
+  interests: string;
+  output: string;
+  help: boolean;
+}
+
+export const GENERATE_USAGE = `Usage: npm run generate -- [options]
+
+Options:
+  --size <n>              number of students to generate (default 1000)
+  --seed <n>              seed; the same seed and profile always give the same file (default 1)
+  --profile <path>        JSON overriding the cohort profile: zones, tags, interestsPerStudent,
+                          interestSkew, timesPerStudent, rangeShare, buddyRate, avoidRate
+  --interests <path>      interest taxonomy to draw from (default public/data/interests.json)
+  --output <path>         CSV to write (default cohorts/synthetic-<size>-seed<seed>.csv)
+  --help                  show this message`;
+
+export function parseGenerateArgs(argv: string[]): GenerateCliOptions {
+  let output: string | null = null;
+  const options: GenerateCliOptions = {
+    size: 1000,
+    seed: 1,
+    profile: null,
+    interests: path.join(DATA_DIR, 'interests.json'),
+    output: '',
+    help: false
+  };
+
+  readFlags(argv, (flag, value, arg) => {
+    switch (flag) {
+      case '--size':
+        options.size = parseInteger(flag, value());
+        break;
+      case '--seed':
+        options.seed = parseInteger(flag, value());
+        break;
+      case '--profile':
+        options.profile = path.resolve(value());
+        break;
+      case '--interests':
+        options.interests = path.resolve(value());
+        break;
+      case '--output':
+        output = path.resolve(value());
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      default:
+        throw new CliError(`Unknown option "${arg}"`);
+    }
+  });
+
+  if (options.size < 1) {
+    throw new CliError('--size must be at least 1');
+  }
+  options.output = output ?? path.join(COHORTS_DIR, `synthetic-${options.size}-seed${options.seed}.csv`);
+  return options;
+}
+
+export interface BenchmarkCliOptions {
+  sizes: number[];
+  seed: number;
+  profile: string | null;
+  inputs: string[];
+  interests: string;
+  rules: string;
+  spaces: string;
+  minPodSize: number;
+  maxPodSize: number;
+  output: string;
+  compare: string | null;
+  help: boolean;
+}
+
+export const BENCHMARK_USAGE = `Usage: npm run benchmark -- [options]
+
+Options:
+  --sizes <n,n,...>       synthetic cohort sizes to match (default 500,1000,5000, or none with --input)
+  --seed <n>              seed for the synthetic cohorts (default 1)
+  --profile <path>        cohort profile JSON, as for npm run generate
+  --input <path>          benchmark this students CSV as well; may be repeated
+  --interests <path>      interest taxonomy (default public/data/interests.json)
+  --rules <path>          matching rules (default public/data/matching-rules.json)
+  --spaces <path>         meeting spaces the space rules check (default public/data/spaces.json)
+  --min-size <n>          smallest pod the matcher may form (default 5)
+  --max-size <n>          largest pod the matcher may form (default 8)
+  --output <path>         results JSON to write (default cohorts/benchmark.json)
+  --compare <path>        results JSON from an earlier run to show changes against
+  --help                  show this message`;
+
+export function parseBenchmarkArgs(argv: string[]): BenchmarkCliOptions {
+  let sizes: number[] | null = null;
+  const options: BenchmarkCliOptions = {
+    sizes: [500, 1000, 5000],
+    seed: 1,
+    profile: null,
+    inputs: [],
+    interests: path.join(DATA_DIR, 'interests.json'),
+    rules: path.join(DATA_DIR, 'matching-rules.json'),
+    spaces: path.join(DATA_DIR, 'spaces.json'),
+    minPodSize: 5,
+    maxPodSize: 8,
+    output: path.join(COHORTS_DIR, 'benchmark.json'),
+    compare: null,
+    help: false
+  };
+
+  readFlags(argv, (flag, value, arg) => {
+    switch (flag) {
+      case '--sizes':
+        sizes = value()
+          .split(',')
+          .map((entry) => parseInteger(flag, entry.trim()));
+        break;
+      case '--seed':
+        options.seed = parseInteger(flag, value());
+        break;
+      case '--profile':
+        options.profile = path.resolve(value());
+        break;
+      case '--input':
+        options.inputs.push(path.resolve(value()));
+        break;
+      case '--interests':
+        options.interests = path.resolve(value());
+        break;
+      case '--rules':
+        options.rules = path.resolve(value());
+        break;
+      case '--spaces':
+        options.spaces = path.resolve(value());
+        break;
+      case '--min-size':
+        options.minPodSize = parseInteger(flag, value());
+        break;
+      case '--max-size':
+        options.maxPodSize = parseInteger(flag, value());
+        break;
+      case '--output':
+        options.output = path.resolve(value());
+        break;
+      case '--compare':
+        options.compare = path.resolve(value());
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      default:
+        throw new CliError(`Unknown option "${arg}"`);
+    }
+  });
+
+  // Given only --input, benchmark just those files
+  options.sizes = sizes ?? (options.inputs.length > 0 ? [] : options.sizes);
+  if (options.sizes.some((size) => size < 1)) {
+    throw new CliError('--sizes must list positive whole numbers');
+  }
+  if (options.sizes.length === 0 && options.inputs.length === 0) {
+    throw new CliError('Nothing to benchmark; give --sizes or --input');
+  }
+  if (options.minPodSize < 2) {
+    throw new CliError('--min-size must be at least 2');
+  }
+  if (options.maxPodSize < options.minPodSize) {
+    throw new CliError('--max-size must be greater than or equal to --min-size');
+  }
+  return options;
+}
+
+export interface ValidateCliOptions {
+  pods: string;
+  users: string;
+  quests: string;
+  badges: string;
+  spaces: string;
+  rewards: string;
+  minPodSize: number;
+  maxPodSize: number;
+  help: boolean;
+}
+
+export const VALIDATE_USAGE = `Usage: npm run validate -- [options]
+
+Options:
+  --pods <path>           pods JSON (default public/data/pods.json)
+  --users <path>          roster JSON (default public/data/users.json)
+  --quests <path>         quests JSON (default public/data/quests.json)
+  --badges <path>         badges JSON (default public/data/badges.json)
+  --spaces <path>         spaces JSON (default public/data/spaces.json)
+  --rewards <path>        rewards JSON (default public/data/rewards.json)
+  --min-size <n>          smallest allowed pod (default 5)
+  --max-size <n>          largest allowed pod (default 8)
+  --help                  show this message`;
+
+export function parseValidateArgs(argv: string[]): ValidateCliOptions {
+  const options: ValidateCliOptions = {
+    pods: path.join(DATA_DIR, 'pods.json'),
+    users: path.join(DATA_DIR, 'users.json'),
+    quests: path.join(DATA_DIR, 'quests.json'),
+    badges: path.join(DATA_DIR, 'badges.json'),
+    spaces: path.join(DATA_DIR, 'spaces.json'),
+    rewards: path.join(DATA_DIR, 'rewards.json'),
+    minPodSize: 5,
+    maxPodSize: 8,
+    help: false
+  };
+
+  readFlags(argv, (flag, value, arg) => {
+    switch (flag) {
+      case '--pods':
+      case '--users':
+      case '--quests':
+      case '--badges':
+      case '--spaces':
+      case '--rewards':
+        options[flag.slice(2) as 'pods' | 'users' | 'quests' | 'badges' | 'spaces' | 'rewards'] = path.resolve(value());
+        break;
+      case '--min-size':
+        options.minPodSize = parseInteger(flag, value());
+        break;
+      case '--max-size':
+        options.maxPodSize = parseInteger(flag, value());
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      default:
+        throw new CliError(`Unknown option "${arg}"`);
+    }
+  });
+
+  if (options.maxPodSize < options.minPodSize) {
+    throw new CliError('--max-size must be greater than or equal to --min-size');
+  }
+  return options;
+}
+
+export interface ServeCliOptions {
+  port: number;
+  state: string;
+  pods: string;
+  users: string;
+  help: boolean;
+}
+
+export const SERVE_USAGE = `Usage: npm run serve -- [options]
+
+Options:
+  --port <n>              port to listen on (default 8787)
+  --state <path>          JSON file holding progress, points, applications and pulses (default server-data/state.json)
+  --pods <path>           pods JSON served at /api/pods (default public/data/pods.json)
+  --users <path>          roster JSON for /api/pods/<id>/members (default public/data/users.json)
+  --help                  show this message`;
+
+export function parseServeArgs(argv: string[]): ServeCliOptions {
+  const options: ServeCliOptions = {
+    port: 8787,
+    state: path.join(__dirname, '..', '..', 'server-data', 'state.json'),
+    pods: path.join(DATA_DIR, 'pods.json'),
+    users: path.join(DATA_DIR, 'users.json'),
+    help: false
+  };
+
+  readFlags(argv, (flag, value, arg) => {
+    switch (flag) {
+      case '--port':
+        options.port = parseInteger(flag, value());
+        break;
+      case '--state':
+      case '--pods':
+      case '--users':
+        options[flag.slice(2) as 'state' | 'pods' | 'users'] = path.resolve(value());
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      default:
+        throw new CliError(`Unknown option "${arg}"`);
+    }
+  });
+
+  if (options.port < 1 || options.port > 65535) {
+    throw new CliError('--port must be between 1 and 65535');
+  }
+  return options;
+}
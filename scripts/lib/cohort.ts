@@ -0,0 +1,159 @@
+import { DAYS, Day, formatTimeslot } from '../../src/lib/timeslots';
+import { createRng } from './random';
+
+// How a synthetic cohort is drawn. Weights are relative; prevalences and
+// rates are the chance (0–1) a single student has the trait.
+export interface CohortProfile {
+  zones: Record<string, number>;
+  tags: Record<string, number>;
+  // Interests per student, and how strongly popular interests dominate:
+  // 0 draws every interest equally, 1 follows a Zipf curve
+  interestsPerStudent: [number, number];
+  interestSkew: number;
+  // Times per student, and the share of students who give a range such as
+  // "Tue 11:00-13:00" instead of single times
+  timesPerStudent: [number, number];
+  rangeShare: number;
+  // Chance a student names a buddy, or someone they would rather avoid
+  buddyRate: number;
+  avoidRate: number;
+}
+
+export interface CohortRow {
+  name: string;
+  email: string;
+  zone: string;
+  interests: string[];
+  times: string[];
+  tags: string[];
+  buddies: string[];
+  do_not_match: string[];
+}
+
+// Roughly a first-year class: most students on Tempe, a few online, and
+// meetings bunched on weekday late mornings and afternoons
+export const DEFAULT_COHORT_PROFILE: CohortProfile = {
+  zones: { Tempe: 60, DTPHX: 15, West: 10, Poly: 10, Virtual: 5 },
+  tags: {
+    commuter: 0.35,
+    first_gen: 0.25,
+    out_of_state: 0.2,
+    finance_work: 0.2,
+    international: 0.1,
+    language_ally: 0.08,
+    sensory: 0.05,
+    mobility: 0.04
+  },
+  interestsPerStudent: [2, 4],
+  interestSkew: 0.8,
+  timesPerStudent: [2, 4],
+  rangeShare: 0.2,
+  buddyRate: 0.1,
+  avoidRate: 0.02
+};
+
+const FIRST_NAMES = ['Alex', 'Maria', 'Jordan', 'Priya', 'Diego', 'Mei', 'Sam', 'Aisha', 'Lucas', 'Noor', 'Emily', 'Kai', 'Sofia', 'Omar', 'Grace', 'Mateo'];
+const LAST_NAMES = ['Garcia', 'Nguyen', 'Smith', 'Patel', 'Lopez', 'Kim', 'Johnson', 'Khan', 'Martinez', 'Chen', 'Begay', 'Brown', 'Ali', 'Rivera', 'Lee', 'Davis'];
+
+// Meeting starts weighted toward the late morning and early afternoon
+const START_HOURS: [number, number][] = [[9, 1], [10, 2], [11, 3], [12, 4], [13, 3], [14, 3], [15, 2], [16, 2], [17, 1], [18, 1]];
+const WEEKDAYS: Day[] = DAYS.slice(0, 5);
+
+export function generateCohort(size: number, seed: number, profile: CohortProfile, interests: string[]): CohortRow[] {
+  const rng = createRng(seed);
+  const between = ([min, max]: [number, number]) => min + Math.floor(rng() * (max - min + 1));
+  const weighted = <T>(entries: [T, number][]): T => {
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+    let roll = rng() * total;
+    for (const [value, weight] of entries) {
+      roll -= weight;
+      if (roll < 0) return value;
+    }
+    return entries[entries.length - 1][0];
+  };
+  const distinct = (count: number, draw: () => string) => {
+    const picked = new Set<string>();
+    // Bounded so a tiny pool cannot loop forever
+    for (let tries = 0; picked.size < count && tries < count * 10; tries++) picked.add(draw());
+    return Array.from(picked);
+  };
+
+  const zones = Object.entries(profile.zones);
+  const popularity = interests.map((interest, rank): [string, number] => [interest, 1 / Math.pow(rank + 1, profile.interestSkew)]);
+  const start = (): [Day, number] => [WEEKDAYS[Math.floor(rng() * WEEKDAYS.length)], weighted(START_HOURS) * 60 + (rng() < 0.5 ? 0 : 30)];
+  const time = () => formatTimeslot(...start());
+  const range = () => {
+    const [day, minutes] = start();
+    const end = Math.min(minutes + 60 * (1 + Math.floor(rng() * 3)), 21 * 60);
+    const clock = `${String(Math.floor(end / 60)).padStart(2, '0')}:${String(end % 60).padStart(2, '0')}`;
+    return `${formatTimeslot(day, minutes)}-${clock}`;
+  };
+
+  const rows: CohortRow[] = Array.from({ length: size }, (_, index) => {
+    const first = FIRST_NAMES[Math.floor(rng() * FIRST_NAMES.length)];
+    const last = LAST_NAMES[Math.floor(rng() * LAST_NAMES.length)];
+    const count = between(profile.timesPerStudent);
+    return {
+      name: `${first} ${last}`,
+      email: `${first[0]}${last}${index + 1}@asu.edu`.toLowerCase(),
+      zone: weighted(zones),
+      interests: distinct(between(profile.interestsPerStudent), () => weighted(popularity)),
+      times: rng() < profile.rangeShare ? distinct(Math.max(1, Math.ceil(count / 2)), range) : distinct(count, time),
+      tags: Object.entries(profile.tags)
+        .filter(([, prevalence]) => rng() < prevalence)
+        .map(([tag]) => tag),
+      buddies: [],
+      do_not_match: []
+    };
+  });
+
+  // Buddies and avoid requests point at someone in the same zone, as they
+  // would in a real class
+  const byZone = new Map<string, CohortRow[]>();
+  rows.forEach((row) => {
+    if (!byZone.has(row.zone)) byZone.set(row.zone, []);
+    byZone.get(row.zone)!.push(row);
+  });
+  rows.forEach((row) => {
+    const sameZone = () => {
+      const zoneRows = byZone.get(row.zone)!;
+      const other = zoneRows[Math.floor(rng() * zoneRows.length)];
+      return other !== row ? other.email : null;
+    };
+    if (rng() < profile.buddyRate) row.buddies = [sameZone()].filter((email): email is string => email !== null);
+    if (rng() < profile.avoidRate) {
+      row.do_not_match = [sameZone()].filter((email): email is string => email !== null && !row.buddies.includes(email));
+    }
+  });
+  return rows;
+}
+
+const csvField = (value: string) => (/[",\n;]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Same columns as data/students.csv
+export function formatCohortCsv(rows: CohortRow[]): string {
+  const header = 'name,email,zone,interests,times,tags,buddies,do_not_match';
+  const lines = rows.map((row) =>
+    [row.name, row.email, row.zone, row.interests.join(';'), row.times.join(';'), row.tags.join(';'), row.buddies.join(';'), row.do_not_match.join(';')]
+      .map(csvField)
+      .join(',')
+  );
+  return `${[header, ...lines].join('\n')}\n`;
+}
+
+export class CohortError extends Error {}
+
+// Overlay a profile JSON (any subset of CohortProfile) on the defaults;
+// null keeps the defaults
+export function parseProfile(data: unknown): CohortProfile {
+  if (data === null) return DEFAULT_COHORT_PROFILE;
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new CohortError('A cohort profile must be a JSON object');
+  }
+  const overrides = data as Partial<CohortProfile>;
+  const unknown = Object.keys(overrides).filter((key) => !(key in DEFAULT_COHORT_PROFILE));
+  if (unknown.length > 0) {
+    throw new CohortError(`Unknown cohort profile field(s): ${unknown.join(', ')}`);
+  }
+  return { ...DEFAULT_COHORT_PROFILE, ...overrides };
+}
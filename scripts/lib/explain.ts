@@ -0,0 +1,73 @@
+import { availabilityWindows, canMeetAt } from '../../src/lib/timeslots';
+import { MatchConfig, Pod, User } from './types';
+import { RuleResult, evaluateRules } from './rules';
+import { draftsFromPods } from './pods';
+
+export interface SharedInterest {
+  interest: string;
+  with: string[];
+}
+
+export interface MemberExplanation {
+  userId: string;
+  // The times this member listed that the pod meeting fits inside
+  availability: string[];
+  sharedInterests: SharedInterest[];
+  // Interests that only share a taxonomy category with a pod mate's
+  relatedInterests: SharedInterest[];
+  // Applicable rules this member's tags take part in
+  rules: RuleResult[];
+}
+
+// Written next to pods.json so anyone can see why a pod looks the way it
+// does without rerunning the matcher
+export interface PodExplanation {
+  podId: string;
+  zone: string;
+  timeslot: string;
+  meetingMinutes: number;
+  members: MemberExplanation[];
+  rules: RuleResult[];
+}
+
+function sharedWith(user: User, mates: User[], same: (a: string, b: string) => boolean): SharedInterest[] {
+  return user.interests
+    .map((interest) => ({
+      interest,
+      with: mates.filter((mate) => mate.interests.some((other) => same(interest, other))).map((mate) => mate.id)
+    }))
+    .filter((entry) => entry.with.length > 0);
+}
+
+export function explainPods(pods: Pod[], users: User[], config: MatchConfig): PodExplanation[] {
+  const drafts = draftsFromPods(pods, users);
+  const categories = config.interestCategories;
+  const related = (a: string, b: string) => a !== b && Boolean(categories[a]) && categories[a] === categories[b];
+  return pods.map((pod, index) => {
+    const members = drafts[index].members;
+    const rules = evaluateRules(drafts[index], config).filter((result) => result.status !== 'not_applicable');
+    return {
+      podId: pod.id,
+      zone: pod.zone,
+      timeslot: pod.timeslot,
+      meetingMinutes: config.meetingMinutes,
+      rules,
+      members: members.map((user) => {
+        const mates = members.filter((mate) => mate !== user);
+        const involved = new Set(
+          config.rules.filter((rule) => user.tags.includes(rule.tag) || (rule.with && user.tags.includes(rule.with))).map((rule) => rule.id)
+        );
+        const exact = sharedWith(user, mates, (a, b) => a === b);
+        return {
+          userId: user.id,
+          availability: user.times.filter((time) => canMeetAt(availabilityWindows([time]), pod.timeslot, config.meetingMinutes)),
+          sharedInterests: exact,
+          relatedInterests: sharedWith(user, mates, related).filter(
+            (entry) => !exact.some((match) => match.interest === entry.interest)
+          ),
+          rules: rules.filter((result) => involved.has(result.ruleId))
+        };
+      })
+    };
+  });
+}
@@ -0,0 +1,181 @@
+import { parseTimeslot } from '../../src/lib/timeslots';
+import { STUDENT_ZONES, isVirtualZone } from '../../src/lib/zones';
+import { MAX_WEEK, MIN_WEEK } from '../../src/lib/weeks';
+import { IssueSeverity } from './validation';
+
+export interface IntegrityIssue {
+  file: string;
+  // Where in the file, e.g. "pod-003.memberIds[2]"
+  at: string;
+  severity: IssueSeverity;
+  message: string;
+}
+
+// The data files as read from disk; anything that is not an array is
+// reported rather than trusted
+export interface DataFiles {
+  pods: unknown;
+  users: unknown;
+  quests: unknown;
+  badges: unknown;
+  spaces: unknown;
+  rewards: unknown;
+}
+
+export interface IntegrityOptions {
+  minPodSize: number;
+  maxPodSize: number;
+}
+
+type Entry = Record<string, unknown>;
+
+const isEntry = (value: unknown): value is Entry => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+// Check that pods, users, quests, badges, spaces and rewards agree with one
+// another. Errors mean the app would show broken or missing data; warnings
+// are worth a look but render fine.
+export function checkIntegrity(files: DataFiles, options: IntegrityOptions): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const report = (file: string, at: string, severity: IssueSeverity, message: string) => issues.push({ file, at, severity, message });
+
+  // Every file is a list of objects with a unique string `id`
+  const entries = (file: string, data: unknown): Entry[] => {
+    if (!Array.isArray(data)) {
+      report(file, '', 'error', data === null ? 'File is missing' : 'Expected a JSON array');
+      return [];
+    }
+    const seen = new Set<string>();
+    return data.filter((entry, index) => {
+      if (!isEntry(entry) || typeof entry.id !== 'string' || entry.id === '') {
+        report(file, `[${index}]`, 'error', 'Entry has no string id');
+        return false;
+      }
+      if (seen.has(entry.id)) report(file, entry.id, 'error', 'Duplicate id');
+      seen.add(entry.id);
+      return true;
+    });
+  };
+
+  const pods = entries('pods.json', files.pods);
+  const users = entries('users.json', files.users);
+  const quests = entries('quests.json', files.quests);
+  const badges = entries('badges.json', files.badges);
+  const spaces = entries('spaces.json', files.spaces);
+  const rewards = entries('rewards.json', files.rewards);
+  const userIds = new Set(users.map((user) => user.id as string));
+  const badgeIds = new Set(badges.map((badge) => badge.id as string));
+  const spacesById = new Map(spaces.map((space) => [space.id as string, space]));
+
+  const emails = new Map<string, string>();
+  users.forEach((user) => {
+    const email = typeof user.email === 'string' ? user.email.trim().toLowerCase() : '';
+    if (email && emails.has(email)) report('users.json', user.id as string, 'warning', `Same email as ${emails.get(email)}`);
+    if (email) emails.set(email, user.id as string);
+  });
+
+  spaces.forEach((space) => {
+    if (typeof space.capacity !== 'number' || space.capacity < 1) {
+      report('spaces.json', space.id as string, 'error', 'capacity must be a positive number');
+    }
+  });
+
+  const podOf = new Map<string, string>();
+  pods.forEach((pod) => {
+    const id = pod.id as string;
+    if (!isStringList(pod.memberIds)) {
+      report('pods.json', `${id}.memberIds`, 'error', 'Expected a list of user IDs');
+      return;
+    }
+    const size = pod.memberIds.length;
+    if (size < options.minPodSize || size > options.maxPodSize) {
+      report('pods.json', id, 'error', `${size} member(s); pods hold ${options.minPodSize}–${options.maxPodSize}`);
+    }
+    if (typeof pod.zone !== 'string' || !(STUDENT_ZONES as readonly string[]).includes(pod.zone)) {
+      report('pods.json', `${id}.zone`, 'error', `Unknown zone "${String(pod.zone)}"`);
+    }
+    if (typeof pod.timeslot !== 'string' || !parseTimeslot(pod.timeslot)) {
+      report('pods.json', `${id}.timeslot`, 'error', `Unreadable meeting time "${String(pod.timeslot)}"`);
+    }
+    pod.memberIds.forEach((memberId, index) => {
+      if (!userIds.has(memberId)) {
+        report('pods.json', `${id}.memberIds[${index}]`, 'error', `${memberId} is not in users.json`);
+      }
+      if (podOf.get(memberId) === id) {
+        report('pods.json', `${id}.memberIds[${index}]`, 'error', `${memberId} is listed twice`);
+      } else if (podOf.has(memberId)) {
+        report('pods.json', `${id}.memberIds[${index}]`, 'error', `${memberId} is also in ${podOf.get(memberId)}`);
+      }
+      if (!podOf.has(memberId)) podOf.set(memberId, id);
+    });
+    if (pod.captainId && !userIds.has(pod.captainId as string)) {
+      report('pods.json', `${id}.captainId`, 'error', `${String(pod.captainId)} is not in users.json`);
+    }
+    if (isVirtualZone(String(pod.zone))) {
+      if (!pod.meetingLink) report('pods.json', `${id}.meetingLink`, 'warning', 'Virtual pod has no meeting link');
+      return;
+    }
+    if (pod.spaceId) {
+      const space = spacesById.get(pod.spaceId as string);
+      if (!space) {
+        report('pods.json', `${id}.spaceId`, 'error', `${String(pod.spaceId)} is not in spaces.json`);
+      } else {
+        if (space.zone !== pod.zone) {
+          report('pods.json', `${id}.spaceId`, 'warning', `${space.id} is in ${String(space.zone)}, the pod meets in ${String(pod.zone)}`);
+        }
+        if (typeof space.capacity === 'number' && space.capacity < size) {
+          report('pods.json', `${id}.spaceId`, 'warning', `${space.id} seats ${space.capacity}; the pod has ${size}`);
+        }
+      }
+    }
+  });
+
+  const weeks = new Map<number, string>();
+  quests.forEach((quest) => {
+    const id = quest.id as string;
+    const week = quest.week;
+    if (typeof week !== 'number' || !Number.isInteger(week) || week < MIN_WEEK || week > MAX_WEEK) {
+      report('quests.json', `${id}.week`, 'error', `Week must be ${MIN_WEEK}–${MAX_WEEK}, got ${String(week)}`);
+    } else if (weeks.has(week)) {
+      report('quests.json', `${id}.week`, 'error', `Week ${week} already has ${weeks.get(week)}`);
+    } else {
+      weeks.set(week, id);
+    }
+    if (!isStringList(quest.badges)) {
+      report('quests.json', `${id}.badges`, 'error', 'Expected a list of badge IDs');
+      return;
+    }
+    // A missing badges.json is already reported once
+    if (!Array.isArray(files.badges)) return;
+    quest.badges.forEach((badge, index) => {
+      if (!badgeIds.has(badge)) report('quests.json', `${id}.badges[${index}]`, 'error', `${badge} is not in badges.json`);
+    });
+  });
+  if (Array.isArray(files.quests)) {
+    const missing = Array.from({ length: MAX_WEEK - MIN_WEEK + 1 }, (_, index) => MIN_WEEK + index).filter((week) => !weeks.has(week));
+    if (missing.length > 0) report('quests.json', '', 'error', `No quest for week(s) ${missing.join(', ')}`);
+  }
+
+  rewards.forEach((reward) => {
+    if (typeof reward.cost !== 'number' || reward.cost < 0) {
+      report('rewards.json', `${reward.id as string}.cost`, 'error', 'cost must be a number of points, 0 or more');
+    }
+  });
+  return issues;
+}
+
+export function formatIntegrityReport(issues: IntegrityIssue[]): string {
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  const warnings = issues.filter((issue) => issue.severity === 'warning');
+  const line = (issue: IntegrityIssue) => `  ${issue.file}${issue.at ? ` · ${issue.at}` : ''}: ${issue.message}`;
+  const lines = [`Data integrity: ${errors.length} error(s), ${warnings.length} warning(s)`];
+  if (errors.length > 0) {
+    lines.push('Errors:');
+    errors.forEach((issue) => lines.push(line(issue)));
+  }
+  if (warnings.length > 0) {
+    lines.push('Warnings:');
+    warnings.forEach((issue) => lines.push(line(issue)));
+  }
+  return `${lines.join('\n')}\n`;
+}
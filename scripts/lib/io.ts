@@ -0,0 +1,21 @@
+import fs from 'fs';
+
+// Read a JSON array from disk, treating a missing file as empty
+export function readJsonArray<T>(filePath: string): T[] {
+  if (!fs.existsSync(filePath)) return [];
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  return Array.isArray(parsed) ? (parsed as T[]) : [];
+}
+
+export function readJson(filePath: string): unknown {
+  if (!fs.existsSync(filePath)) return null;
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+export function writeJson(filePath: string, value: unknown): void {
+  fs.writeFileSync(filePath, JSON.stringify(value, null, 2));
+}
+
+export function writeText(filePath: string, text: string): void {
+  fs.writeFileSync(filePath, text);
+}
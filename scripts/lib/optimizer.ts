@@ -0,0 +1,315 @@
+import { MatchConfig, PodDraft, User } from './types';
+import { PodScore, scorePod, scorePods } from './scoring';
+import { createRng, shuffle } from './random';
+import { canMeet, meetingSlots } from './availability';
+import { canJoin } from './preferences';
+import { isMidday } from '../../src/lib/timeslots';
+
+export interface MatchResult {
+  pods: PodDraft[];
+  unmatched: User[];
+  seedScore: PodScore;
+  score: PodScore;
+  passes: number;
+}
+
+interface ZoneState {
+  zone: string;
+  pods: PodDraft[];
+  unmatched: User[];
+  // Members of pods carried over from an earlier run; they never move
+  locked: Set<User>;
+}
+
+// Moves must beat this margin so floating point noise never loops forever
+const EPSILON = 1e-9;
+
+const podTotal = (pod: PodDraft, config: MatchConfig) => scorePod(pod, config).total;
+
+const withMembers = (pod: PodDraft, members: User[]): PodDraft => ({ ...pod, members });
+
+const without = (members: User[], user: User) => members.filter((m) => m !== user);
+
+// Tags a prefer_midday rule looks after, e.g. commuters
+const middayTags = (config: MatchConfig) =>
+  config.rules.filter((rule) => rule.kind === 'prefer_midday').map((rule) => rule.tag);
+
+// Midday slots first so those students get the first pick of partners
+const sortSlots = (slots: string[], config: MatchConfig) =>
+  middayTags(config).length > 0 ? slots.sort((a, b) => (isMidday(b) ? 1 : 0) - (isMidday(a) ? 1 : 0)) : slots;
+
+export function groupByZone(users: User[]): { [zone: string]: User[] } {
+  const usersByZone: { [zone: string]: User[] } = {};
+  users.forEach((u) => {
+    usersByZone[u.zone] = usersByZone[u.zone] || [];
+    usersByZone[u.zone].push(u);
+  });
+  return usersByZone;
+}
+
+// Greedy seed: walk candidate meeting times in a fixed order and build pods
+// around the first remaining user who can make it. Cheap, but early slots
+// hoover up people, which is what the local search below cleans up.
+// Do-not-match pairs are never put together.
+export function greedySeed(zone: string, zoneUsers: User[], config: MatchConfig): ZoneState {
+  const pods: PodDraft[] = [];
+  const placed = new Set<User>();
+  const timeslots = sortSlots(meetingSlots(zoneUsers), config);
+  const prioritized = middayTags(config);
+  const pairRules = config.rules.filter((rule) => rule.kind === 'pair');
+
+  timeslots.forEach((slot) => {
+    const slotUsers = zoneUsers.filter((u) => !placed.has(u) && canMeet(u, slot, config));
+    // Sort to prioritise students a prefer_midday rule covers
+    if (prioritized.length > 0) {
+      const priority = (u: User) => (u.tags.some((tag) => prioritized.includes(tag)) ? 1 : 0);
+      slotUsers.sort((a, b) => priority(b) - priority(a));
+    }
+
+    while (slotUsers.length >= config.minPodSize) {
+      const first = slotUsers.shift()!;
+      const podMembers: User[] = [first];
+      const take = (i: number) => podMembers.push(slotUsers.splice(i, 1)[0]);
+
+      // Bring along anyone the first user asked to be matched with
+      for (let i = slotUsers.length - 1; i >= 0 && podMembers.length < config.maxPodSize; i--) {
+        if (first.buddyIds?.includes(slotUsers[i].id) && canJoin(slotUsers[i], podMembers)) take(i);
+      }
+
+      // Add others who share at least one interest with the first user
+      for (let i = slotUsers.length - 1; i >= 0 && podMembers.length < config.maxPodSize; i--) {
+        if (
+          slotUsers[i].interests.some((interest) => first.interests.includes(interest)) &&
+          canJoin(slotUsers[i], podMembers)
+        ) {
+          take(i);
+        }
+      }
+
+      // For each pair rule (e.g. international + language_ally), try to add
+      // a partner when the pod has the tag but nobody to pair with
+      pairRules.forEach((rule) => {
+        const hasTag = podMembers.some((u) => u.tags.includes(rule.tag));
+        const hasPartner = podMembers.some((u) => u.tags.includes(rule.with!));
+        if (hasTag && !hasPartner && podMembers.length < config.maxPodSize) {
+          const idx = slotUsers.findIndex((u) => u.tags.includes(rule.with!) && canJoin(u, podMembers));
+          if (idx >= 0) take(idx);
+        }
+      });
+
+      // If still short, fill with any remaining users who can join
+      while (podMembers.length < config.minPodSize) {
+        const idx = slotUsers.findIndex((u) => canJoin(u, podMembers));
+        if (idx < 0) break;
+        take(idx);
+      }
+      // Conflicts left the pod too small: try the others without `first`
+      if (podMembers.length < config.minPodSize) {
+        slotUsers.unshift(...podMembers.slice(1));
+        continue;
+      }
+
+      podMembers.forEach((u) => placed.add(u));
+      pods.push({ zone, timeslot: slot, members: podMembers });
+    }
+  });
+
+  return { zone, pods, unmatched: zoneUsers.filter((u) => !placed.has(u)), locked: new Set() };
+}
+
+// Build a new pod in a slot where unmatched students are waiting, borrowing
+// members from pods that are above the minimum size when needed.
+function formPods(state: ZoneState, config: MatchConfig): boolean {
+  let improved = false;
+  const slots = sortSlots(meetingSlots(state.unmatched), config);
+
+  slots.forEach((slot) => {
+    const pool = state.unmatched.filter((u) => canMeet(u, slot, config));
+    if (pool.length === 0) return;
+
+    const members: User[] = [];
+    pool.forEach((u) => {
+      if (members.length < config.maxPodSize && canJoin(u, members)) members.push(u);
+    });
+    const borrowed: { pod: PodDraft; user: User }[] = [];
+    if (members.length < config.minPodSize) {
+      const donors: { pod: PodDraft; user: User; cost: number }[] = [];
+      state.pods.forEach((pod) => {
+        if (pod.members.length <= config.minPodSize) return;
+        const before = podTotal(pod, config);
+        pod.members
+          .filter((u) => !state.locked.has(u) && canMeet(u, slot, config))
+          .forEach((user) => {
+            const cost = before - podTotal(withMembers(pod, without(pod.members, user)), config);
+            donors.push({ pod, user, cost });
+          });
+      });
+      donors.sort((a, b) => a.cost - b.cost);
+
+      const spare = new Map<PodDraft, number>();
+      for (const donor of donors) {
+        if (members.length >= config.minPodSize) break;
+        if (!canJoin(donor.user, members)) continue;
+        const left = spare.has(donor.pod) ? spare.get(donor.pod)! : donor.pod.members.length - config.minPodSize;
+        if (left <= 0) continue;
+        spare.set(donor.pod, left - 1);
+        members.push(donor.user);
+        borrowed.push({ pod: donor.pod, user: donor.user });
+      }
+    }
+    if (members.length < config.minPodSize) return;
+
+    const candidate: PodDraft = { zone: state.zone, timeslot: slot, members };
+    let delta = podTotal(candidate, config);
+    const donorPods = Array.from(new Set(borrowed.map((b) => b.pod)));
+    const shrunk = new Map<PodDraft, User[]>();
+    donorPods.forEach((pod) => {
+      const taken = borrowed.filter((b) => b.pod === pod).map((b) => b.user);
+      const remaining = pod.members.filter((u) => !taken.includes(u));
+      shrunk.set(pod, remaining);
+      delta += podTotal(withMembers(pod, remaining), config) - podTotal(pod, config);
+    });
+    if (delta <= EPSILON) return;
+
+    shrunk.forEach((remaining, pod) => {
+      pod.members = remaining;
+    });
+    state.pods.push(candidate);
+    state.unmatched = state.unmatched.filter((u) => !members.includes(u));
+    improved = true;
+  });
+
+  return improved;
+}
+
+// Drop each waiting student into the open pod where they add the most
+function placeUnmatched(state: ZoneState, config: MatchConfig): boolean {
+  let improved = false;
+  [...state.unmatched].forEach((user) => {
+    let best: PodDraft | null = null;
+    let bestDelta = EPSILON;
+    state.pods.forEach((pod) => {
+      if (pod.members.length >= config.maxPodSize || !canMeet(user, pod.timeslot, config)) return;
+      if (!canJoin(user, pod.members)) return;
+      const delta = podTotal(withMembers(pod, [...pod.members, user]), config) - podTotal(pod, config);
+      if (delta > bestDelta) {
+        best = pod;
+        bestDelta = delta;
+      }
+    });
+    if (best) {
+      (best as PodDraft).members.push(user);
+      state.unmatched = without(state.unmatched, user);
+      improved = true;
+    }
+  });
+  return improved;
+}
+
+// Move single members to another pod at a slot they can make
+function relocateMembers(state: ZoneState, config: MatchConfig): boolean {
+  let improved = false;
+  state.pods.forEach((from) => {
+    [...from.members].forEach((user) => {
+      if (from.members.length <= config.minPodSize || state.locked.has(user)) return;
+      const fromBefore = podTotal(from, config);
+      const fromAfter = podTotal(withMembers(from, without(from.members, user)), config);
+      let best: PodDraft | null = null;
+      let bestDelta = EPSILON;
+      state.pods.forEach((to) => {
+        if (to === from || to.members.length >= config.maxPodSize || !canMeet(user, to.timeslot, config)) return;
+        if (!canJoin(user, to.members)) return;
+        const delta =
+          fromAfter - fromBefore + podTotal(withMembers(to, [...to.members, user]), config) - podTotal(to, config);
+        if (delta > bestDelta) {
+          best = to;
+          bestDelta = delta;
+        }
+      });
+      if (best) {
+        from.members = without(from.members, user);
+        (best as PodDraft).members.push(user);
+        improved = true;
+      }
+    });
+  });
+  return improved;
+}
+
+// Swap two members between pods when both can make the other slot
+function swapMembers(state: ZoneState, config: MatchConfig): boolean {
+  let improved = false;
+  for (let i = 0; i < state.pods.length; i++) {
+    for (let j = i + 1; j < state.pods.length; j++) {
+      const a = state.pods[i];
+      const b = state.pods[j];
+      for (const userA of [...a.members]) {
+        if (state.locked.has(userA) || !canMeet(userA, b.timeslot, config)) continue;
+        for (const userB of [...b.members]) {
+          if (!a.members.includes(userA)) break;
+          if (state.locked.has(userB) || !canMeet(userB, a.timeslot, config)) continue;
+          const restA = without(a.members, userA);
+          const restB = without(b.members, userB);
+          if (!canJoin(userB, restA) || !canJoin(userA, restB)) continue;
+          const nextA = [...restA, userB];
+          const nextB = [...restB, userA];
+          const delta =
+            podTotal(withMembers(a, nextA), config) +
+            podTotal(withMembers(b, nextB), config) -
+            podTotal(a, config) -
+            podTotal(b, config);
+          if (delta > EPSILON) {
+            a.members = nextA;
+            b.members = nextB;
+            improved = true;
+          }
+        }
+      }
+    }
+  }
+  return improved;
+}
+
+// Optimize across every zone and timeslot at once: seed greedily, then run
+// improving moves until a full pass changes nothing. Pods passed in as
+// `existing` keep their members; only `users` are placed around them.
+export function optimizeMatch(users: User[], config: MatchConfig, existing: PodDraft[] = []): MatchResult {
+  // A seed only changes which of several equally good choices wins
+  const ordered = config.seed === null ? users : shuffle(users, createRng(config.seed));
+  const usersByZone = groupByZone(ordered);
+  existing.forEach((pod) => {
+    usersByZone[pod.zone] = usersByZone[pod.zone] || [];
+  });
+  const pods: PodDraft[] = [];
+  const unmatched: User[] = [];
+  const seedPods: PodDraft[] = [];
+  let passes = 0;
+
+  Object.keys(usersByZone).forEach((zone) => {
+    const state = greedySeed(zone, usersByZone[zone], config);
+    const carried = existing.filter((pod) => pod.zone === zone);
+    carried.forEach((pod) => pod.members.forEach((u) => state.locked.add(u)));
+    state.pods = [...carried, ...state.pods];
+    seedPods.push(...state.pods.map((pod) => withMembers(pod, [...pod.members])));
+
+    for (let pass = 0; pass < config.maxPasses; pass++) {
+      let improved = formPods(state, config);
+      improved = placeUnmatched(state, config) || improved;
+      improved = relocateMembers(state, config) || improved;
+      improved = swapMembers(state, config) || improved;
+      passes = Math.max(passes, pass + 1);
+      if (!improved) break;
+    }
+
+    pods.push(...state.pods.filter((pod) => pod.members.length > 0));
+    unmatched.push(...state.unmatched);
+  });
+
+  return {
+    pods,
+    unmatched,
+    seedScore: scorePods(seedPods, config),
+    score: scorePods(pods, config),
+    passes
+  };
+}
@@ -0,0 +1,79 @@
+import path from 'path';
+import { Pod, PodDraft, User } from './types';
+
+// Generate a simple unique ID
+export function uid(prefix: string, num: number): string {
+  return `${prefix}-${num.toString().padStart(3, '0')}`;
+}
+
+const podNumber = (id: string): number => {
+  const match = /(\d+)$/.exec(id);
+  return match ? parseInt(match[1], 10) : 0;
+};
+
+// First pod number that has never been handed out. IDs only ever grow so
+// check-in, quest and vibe keys tied to older pods stay attached to them.
+export function nextPodNumber(issuedIds: string[]): number {
+  return issuedIds.reduce((max, id) => Math.max(max, podNumber(id)), 0) + 1;
+}
+
+// Pods a rebalance dissolved, kept beside their pods file (pods.json ->
+// pods.retired.json) so their IDs still count as issued after they are gone
+export function retiredPodsPath(podsPath: string): string {
+  return path.join(path.dirname(podsPath), `${path.basename(podsPath, '.json')}.retired.json`);
+}
+
+const union = (...lists: string[][]) => Array.from(new Set(lists.flat()));
+
+// Stand-in for a pod member who is no longer in students.csv, so the seat
+// stays taken without inventing interests or tags for them
+function placeholderUser(id: string, pod: Pod): User {
+  return { id, name: '', email: '', zone: pod.zone, interests: [], times: [pod.timeslot], tags: [] };
+}
+
+// Rebuild optimizer drafts from pods.json so existing memberships can be
+// locked in place during an incremental run
+export function draftsFromPods(pods: Pod[], users: User[]): PodDraft[] {
+  const usersById = new Map(users.map((u) => [u.id, u]));
+  return pods.map((pod) => ({
+    id: pod.id,
+    spaceId: pod.spaceId ?? null,
+    zone: pod.zone,
+    timeslot: pod.timeslot,
+    members: pod.memberIds.map((id) => usersById.get(id) ?? placeholderUser(id, pod))
+  }));
+}
+
+// Turn optimizer drafts into the pods.json shape the dashboard reads.
+// Drafts carried over from `previous` keep their ID and every other field;
+// new pods are numbered past those and past every retired ID.
+export function toPods(drafts: PodDraft[], previous: Pod[] = [], retiredIds: string[] = []): Pod[] {
+  const previousById = new Map(previous.map((pod) => [pod.id, pod]));
+  const previousOrder = new Map(previous.map((pod, idx) => [pod.id, idx]));
+  const rank = (draft: PodDraft) => (draft.id && previousOrder.has(draft.id) ? previousOrder.get(draft.id)! : previous.length);
+  let counter = nextPodNumber([...previous.map((pod) => pod.id), ...retiredIds]);
+  // Existing pods stay in their original order; new pods follow
+  return [...drafts].sort((a, b) => rank(a) - rank(b)).map((draft) => {
+    const interests = draft.members.map((u) => u.interests);
+    const tags = draft.members.map((u) => u.tags);
+    const memberIds = draft.members.map((u) => u.id);
+    const prior = draft.id ? previousById.get(draft.id) : undefined;
+    if (prior) {
+      return { ...prior, memberIds, interests: union(prior.interests, ...interests), tags: union(prior.tags, ...tags) };
+    }
+    return {
+      id: uid('pod', counter++),
+      zone: draft.zone,
+      timeslot: draft.timeslot,
+      interests: union(...interests),
+      tags: union(...tags),
+      memberIds,
+      points: 0,
+      level: 1,
+      vibe: 0,
+      captainId: null,
+      spaceId: null,
+      meetingLink: null
+    };
+  });
+}
@@ -0,0 +1,24 @@
+import { User } from './types';
+
+// Hard constraint: either student asked not to be matched with the other
+export function avoids(a: User, b: User): boolean {
+  return Boolean(a.avoidIds?.includes(b.id) || b.avoidIds?.includes(a.id));
+}
+
+// Whether `user` can join these pod mates without breaking a do-not-match
+export function canJoin(user: User, members: User[]): boolean {
+  return members.every((member) => member === user || !avoids(user, member));
+}
+
+// Pods that break a do-not-match request, e.g. pods carried over from an
+// earlier run before the request was made
+export function hasConflict(members: User[]): boolean {
+  return members.some((member, index) => members.slice(index + 1).some((other) => avoids(member, other)));
+}
+
+// Buddy requests honoured inside one pod; A asking for B and B asking for A
+// count as two
+export function buddyMatches(members: User[]): number {
+  const ids = new Set(members.map((u) => u.id));
+  return members.reduce((sum, u) => sum + (u.buddyIds ?? []).filter((id) => id !== u.id && ids.has(id)).length, 0);
+}
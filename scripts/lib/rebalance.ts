@@ -0,0 +1,211 @@
+import { CheckinRecord } from '../../src/lib/attendance';
+import { Pod, Space, User } from './types';
+import { canJoin } from './preferences';
+
+export interface RebalanceOptions {
+  minPodSize: number;
+  maxPodSize: number;
+  // Semester week attendance is judged at
+  week: number;
+  // Members with no check-in in this many weeks (up to `week`) are inactive
+  inactiveWeeks: number;
+}
+
+export interface Transfer {
+  userId: string;
+  to: string;
+}
+
+// A shrinking pod is dissolved either by merging all its active members
+// into one pod, or by transferring them one by one to pods with room.
+// Inactive members are released rather than moved.
+export interface RebalanceProposal {
+  kind: 'merge' | 'transfer';
+  from: string;
+  zone: string;
+  timeslot: string;
+  transfers: Transfer[];
+  released: string[];
+}
+
+export type StuckReason = 'no_checkins' | 'no_pod_in_slot' | 'no_room';
+
+export interface StuckPod {
+  podId: string;
+  zone: string;
+  timeslot: string;
+  active: number;
+  size: number;
+  reason: StuckReason;
+  detail: string;
+}
+
+export interface RebalancePlan {
+  pods: Pod[];
+  proposals: RebalanceProposal[];
+  stuck: StuckPod[];
+}
+
+const union = (...lists: string[][]) => Array.from(new Set(lists.flat()));
+
+// Members who checked in to their pod in any of the last `inactiveWeeks`
+// weeks. Before that much of the semester has passed there is not enough
+// history to call anyone inactive, so every member counts.
+export function activeMembers(pod: Pod, checkins: CheckinRecord[], options: RebalanceOptions): string[] {
+  if (options.week < options.inactiveWeeks) return [...pod.memberIds];
+  const since = options.week - options.inactiveWeeks + 1;
+  const present = new Set(
+    checkins
+      .filter((record) => record.podId === pod.id && record.week >= since && record.week <= options.week)
+      .map((record) => record.userId)
+  );
+  return pod.memberIds.filter((id) => present.has(id));
+}
+
+// Propose merges and transfers for pods with fewer than `minPodSize` active
+// members. Members only ever move to a pod in the same zone and timeslot,
+// never past `maxPodSize` or the receiving pod's space capacity, and never
+// next to someone they asked not to be matched with. Smallest pods go first
+// so two shrinking pods in one slot end up merged into each other.
+export function planRebalance(
+  pods: Pod[],
+  users: User[],
+  spaces: Space[],
+  checkins: CheckinRecord[],
+  options: RebalanceOptions
+): RebalancePlan {
+  const usersById = new Map(users.map((u) => [u.id, u]));
+  const userFor = (id: string): User =>
+    usersById.get(id) ?? { id, name: '', email: '', zone: '', interests: [], times: [], tags: [] };
+  const capacity = new Map(spaces.map((space) => [space.id, space.capacity]));
+  const working = pods.map((pod) => ({ ...pod, memberIds: [...pod.memberIds] }));
+  const active = new Map(working.map((pod) => [pod.id, activeMembers(pod, checkins, options)]));
+  const dissolved = new Set<string>();
+  const proposals: RebalanceProposal[] = [];
+  const stuck: StuckPod[] = [];
+
+  const room = (pod: Pod) => {
+    const seats = pod.spaceId && capacity.has(pod.spaceId) ? Math.min(options.maxPodSize, capacity.get(pod.spaceId)!) : options.maxPodSize;
+    return seats - pod.memberIds.length;
+  };
+  const accepts = (pod: Pod, movers: User[]) =>
+    room(pod) >= movers.length && movers.every((u) => canJoin(u, pod.memberIds.map(userFor)));
+  const shared = (pod: Pod, user: User) => user.interests.filter((interest) => pod.interests.includes(interest)).length;
+  const receive = (pod: Pod, movers: User[]) => {
+    pod.memberIds.push(...movers.map((u) => u.id));
+    pod.interests = union(pod.interests, ...movers.map((u) => u.interests));
+    pod.tags = union(pod.tags, ...movers.map((u) => u.tags));
+    active.get(pod.id)!.push(...movers.map((u) => u.id));
+  };
+
+  // Ties dissolve pods without a captain or home space first, so the pod
+  // that survives a merge keeps them
+  const anchored = (pod: Pod) => (pod.captainId ? 2 : 0) + (pod.spaceId ? 1 : 0);
+  const shrinking = working
+    .filter((pod) => active.get(pod.id)!.length < options.minPodSize)
+    .sort((a, b) => active.get(a.id)!.length - active.get(b.id)!.length || anchored(a) - anchored(b));
+
+  shrinking.forEach((source) => {
+    // An earlier merge may already have topped this pod back up
+    if (active.get(source.id)!.length >= options.minPodSize) return;
+    const activeIds = active.get(source.id)!;
+    const movers = activeIds.map(userFor);
+    const released = source.memberIds.filter((id) => !activeIds.includes(id));
+    const base = { podId: source.id, zone: source.zone, timeslot: source.timeslot, active: movers.length, size: source.memberIds.length };
+    // Nobody to move, so a merge would only delete the pod. More often the
+    // export simply missed this pod's browser, so a coordinator decides.
+    if (movers.length === 0) {
+      stuck.push({
+        ...base,
+        reason: 'no_checkins',
+        detail: `No member checked in during the last ${options.inactiveWeeks} week(s); check the export before dissolving it by hand.`
+      });
+      return;
+    }
+    const candidates = working.filter(
+      (pod) => pod !== source && !dissolved.has(pod.id) && pod.zone === source.zone && pod.timeslot === source.timeslot
+    );
+    if (candidates.length === 0) {
+      stuck.push({ ...base, reason: 'no_pod_in_slot', detail: `No other ${source.zone} pod meets ${source.timeslot}.` });
+      return;
+    }
+
+    // Best fit: the pod left with the fewest open seats takes everyone
+    const target = candidates
+      .filter((pod) => accepts(pod, movers))
+      .sort((a, b) => room(a) - room(b) || active.get(b.id)!.length - active.get(a.id)!.length)[0];
+    if (target) {
+      receive(target, movers);
+      dissolved.add(source.id);
+      proposals.push({
+        kind: 'merge',
+        from: source.id,
+        zone: source.zone,
+        timeslot: source.timeslot,
+        transfers: movers.map((u) => ({ userId: u.id, to: target.id })),
+        released
+      });
+      return;
+    }
+
+    // Otherwise spread members out, each to the open pod sharing the most
+    // interests; only dissolve the pod if everyone finds a seat
+    const seats = new Map(candidates.map((pod) => [pod.id, [...pod.memberIds]]));
+    const transfers: Transfer[] = [];
+    movers.forEach((user) => {
+      const open = candidates
+        .filter((pod) => {
+          const members = seats.get(pod.id)!;
+          return room({ ...pod, memberIds: members }) > 0 && canJoin(user, members.map(userFor));
+        })
+        .sort((a, b) => shared(b, user) - shared(a, user) || seats.get(a.id)!.length - seats.get(b.id)!.length)[0];
+      if (!open) return;
+      seats.get(open.id)!.push(user.id);
+      transfers.push({ userId: user.id, to: open.id });
+    });
+    if (transfers.length < movers.length) {
+      const open = candidates.reduce((sum, pod) => sum + Math.max(0, room(pod)), 0);
+      stuck.push({
+        ...base,
+        reason: 'no_room',
+        detail: `${movers.length} active member(s) to move but only ${open} open seat(s) in ${source.zone} ${source.timeslot} pods.`
+      });
+      return;
+    }
+    candidates.forEach((pod) => {
+      const incoming = transfers.filter((transfer) => transfer.to === pod.id).map((transfer) => userFor(transfer.userId));
+      if (incoming.length > 0) receive(pod, incoming);
+    });
+    dissolved.add(source.id);
+    proposals.push({ kind: 'transfer', from: source.id, zone: source.zone, timeslot: source.timeslot, transfers, released });
+  });
+
+  return { pods: working.filter((pod) => !dissolved.has(pod.id)), proposals, stuck };
+}
+
+// Preview of what approving the plan changes in pods.json: dissolved pods
+// with `-`, receiving pods with `~`, and each member moved in or released
+export function formatRebalanceDiff(before: Pod[], plan: RebalancePlan, users: User[]): string {
+  const names = new Map(users.map((u) => [u.id, u.name]));
+  const label = (id: string) => (names.get(id) ? `${id} ${names.get(id)}` : id);
+  const beforeById = new Map(before.map((pod) => [pod.id, pod]));
+  const lines: string[] = [];
+  plan.proposals.forEach((proposal) => {
+    const source = beforeById.get(proposal.from)!;
+    const verb = proposal.kind === 'merge' ? `merge into ${proposal.transfers[0]?.to ?? 'nothing'}` : 'split across pods';
+    lines.push(`- ${source.id} (${proposal.zone} ${proposal.timeslot}, ${source.memberIds.length} member(s)): ${verb}`);
+    proposal.transfers.forEach((transfer) => lines.push(`    ${label(transfer.userId)} -> ${transfer.to}`));
+    proposal.released.forEach((id) => lines.push(`    ${label(id)} released (inactive)`));
+  });
+  const receiving = Array.from(new Set(plan.proposals.flatMap((proposal) => proposal.transfers.map((transfer) => transfer.to))));
+  plan.pods
+    .filter((pod) => receiving.includes(pod.id))
+    .forEach((pod) => {
+      const previous = beforeById.get(pod.id)!;
+      lines.push(`~ ${pod.id} (${pod.zone} ${pod.timeslot}): ${previous.memberIds.length} -> ${pod.memberIds.length} member(s)`);
+      pod.memberIds
+        .filter((id) => !previous.memberIds.includes(id))
+        .forEach((id) => lines.push(`    + ${label(id)}`));
+    });
+  return lines.join('\n');
+}
@@ -0,0 +1,200 @@
+import { TAG_OPTIONS } from '../../src/lib/tagOptions';
+import { isMidday } from '../../src/lib/timeslots';
+import { MatchConfig, Pod, PodDraft, Space, User } from './types';
+import { draftsFromPods } from './pods';
+import { isVirtualZone } from '../../src/lib/zones';
+
+// pair:          each `tag` member wants a `with` member in the same pod
+// not_alone:     a `tag` member should never be the only one in the pod
+// prefer_midday: `tag` members do better in pods meeting 11:00–13:59
+// space:         pods with a `tag` member need a space with `feature`
+export type RuleKind = 'pair' | 'not_alone' | 'prefer_midday' | 'space';
+
+export type SpaceFeature = 'ada' | 'sensoryFriendly';
+
+export interface MatchingRule {
+  id: string;
+  kind: RuleKind;
+  description: string;
+  weight: number;
+  tag: string;
+  with?: string;
+  feature?: SpaceFeature;
+}
+
+export type RuleStatus = 'satisfied' | 'violated' | 'not_applicable';
+
+export interface RuleResult {
+  ruleId: string;
+  status: RuleStatus;
+  // Weighted contribution to the pod's objective
+  score: number;
+  detail: string;
+}
+
+export class RulesError extends Error {}
+
+const RULE_KINDS: RuleKind[] = ['pair', 'not_alone', 'prefer_midday', 'space'];
+const SPACE_FEATURES: SpaceFeature[] = ['ada', 'sensoryFriendly'];
+const KNOWN_TAGS = new Set(TAG_OPTIONS.map((option) => option.value));
+
+// Used when no matching-rules.json exists: the language-ally and commuter
+// rules the matcher always had, plus the accessible-space requirements
+export const DEFAULT_RULES: MatchingRule[] = [
+  {
+    id: 'international-language-ally',
+    kind: 'pair',
+    description: 'Pair international students with a language ally',
+    weight: 2,
+    tag: 'international',
+    with: 'language_ally'
+  },
+  {
+    id: 'commuter-midday',
+    kind: 'prefer_midday',
+    description: 'Meet commuters in midday slots',
+    weight: 2,
+    tag: 'commuter'
+  },
+  {
+    id: 'sensory-space',
+    kind: 'space',
+    description: 'Pods with sensory members need a sensory-friendly space',
+    weight: 3,
+    tag: 'sensory',
+    feature: 'sensoryFriendly'
+  },
+  {
+    id: 'mobility-space',
+    kind: 'space',
+    description: 'Pods with mobility needs meet in an ADA-accessible space',
+    weight: 3,
+    tag: 'mobility',
+    feature: 'ada'
+  }
+];
+
+// Check the rules file shape; every problem is reported at once
+export function parseRules(data: unknown): MatchingRule[] {
+  const raw = data && typeof data === 'object' && !Array.isArray(data) ? (data as { rules?: unknown }).rules : data;
+  if (!Array.isArray(raw)) {
+    throw new RulesError('Matching rules must be an array or an object with a "rules" array');
+  }
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  const rules = raw.map((entry, index) => {
+    const item = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    const id = typeof item.id === 'string' && item.id.trim() ? item.id.trim() : `rule-${index + 1}`;
+    const problem = (message: string) => problems.push(`${id}: ${message}`);
+    if (ids.has(id)) problem('duplicate rule id');
+    ids.add(id);
+
+    const kind = item.kind as RuleKind;
+    if (!RULE_KINDS.includes(kind)) problem(`unknown kind "${String(item.kind)}" (expected ${RULE_KINDS.join(', ')})`);
+    const weight = item.weight === undefined ? 1 : Number(item.weight);
+    if (!Number.isFinite(weight) || weight < 0) problem('weight must be a number of 0 or more');
+    const tag = String(item.tag ?? '');
+    if (!KNOWN_TAGS.has(tag)) problem(`unknown tag "${tag}"`);
+
+    const rule: MatchingRule = {
+      id,
+      kind,
+      description: typeof item.description === 'string' ? item.description : id,
+      weight,
+      tag
+    };
+    if (kind === 'pair') {
+      rule.with = String(item.with ?? '');
+      if (!KNOWN_TAGS.has(rule.with)) problem(`unknown partner tag "${rule.with}"`);
+    }
+    if (kind === 'space') {
+      rule.feature = item.feature as SpaceFeature;
+      if (!SPACE_FEATURES.includes(rule.feature)) {
+        problem(`unknown space feature "${String(item.feature)}" (expected ${SPACE_FEATURES.join(', ')})`);
+      }
+    }
+    return rule;
+  });
+  if (problems.length > 0) {
+    throw new RulesError(`Invalid matching rules:\n  ${problems.join('\n  ')}`);
+  }
+  return rules;
+}
+
+// Spaces in the pod's zone that could host it with the given feature
+export function suitableSpaces(pod: PodDraft, feature: SpaceFeature, spaces: Space[]): Space[] {
+  return spaces.filter(
+    (space) => space.zone === pod.zone && space.available !== false && space[feature] && space.capacity >= pod.members.length
+  );
+}
+
+// Score one rule for one pod. Raw scores count affected students: +1 for
+// each one the rule is met for, -1 for each one it is not.
+export function evaluateRule(rule: MatchingRule, pod: PodDraft, config: MatchConfig): RuleResult {
+  const tagged = pod.members.filter((u) => u.tags.includes(rule.tag)).length;
+  const result = (status: RuleStatus, raw: number, detail: string): RuleResult => ({
+    ruleId: rule.id,
+    status,
+    score: rule.weight * raw,
+    detail
+  });
+  if (tagged === 0) return result('not_applicable', 0, `No ${rule.tag} members`);
+
+  switch (rule.kind) {
+    case 'pair': {
+      const partners = pod.members.filter((u) => u.tags.includes(rule.with!)).length;
+      return partners > 0
+        ? result('satisfied', tagged, `${tagged} ${rule.tag} member(s) with ${partners} ${rule.with}`)
+        : result('violated', -tagged, `${tagged} ${rule.tag} member(s) without a ${rule.with}`);
+    }
+    case 'not_alone':
+      return tagged > 1
+        ? result('satisfied', 0, `${tagged} ${rule.tag} members`)
+        : result('violated', -1, `Only ${rule.tag} member in the pod`);
+    case 'prefer_midday':
+      return isMidday(pod.timeslot)
+        ? result('satisfied', tagged, `${tagged} ${rule.tag} member(s) meeting midday`)
+        : result('violated', 0, `${tagged} ${rule.tag} member(s) meeting outside midday`);
+    case 'space': {
+      if (isVirtualZone(pod.zone)) return result('satisfied', 0, 'Meets online');
+      // Once a pod has a home space, only that space counts
+      const home = pod.spaceId ? config.spaces.find((space) => space.id === pod.spaceId) : undefined;
+      if (home) {
+        return home[rule.feature!]
+          ? result('satisfied', 0, `Meets in ${home.name} (${rule.feature})`)
+          : result('violated', -tagged, `${home.name} is not ${rule.feature}`);
+      }
+      const count = suitableSpaces(pod, rule.feature!, config.spaces).length;
+      return count > 0
+        ? result('satisfied', 0, `${count} ${rule.feature} space(s) in ${pod.zone}`)
+        : result('violated', -tagged, `No available ${rule.feature} space in ${pod.zone} for ${pod.members.length}`);
+    }
+  }
+}
+
+export function evaluateRules(pod: PodDraft, config: MatchConfig): RuleResult[] {
+  return config.rules.map((rule) => evaluateRule(rule, pod, config));
+}
+
+export interface PodRulesReport {
+  podId: string;
+  zone: string;
+  timeslot: string;
+  score: number;
+  results: RuleResult[];
+}
+
+// Rule outcomes for every finished pod, leaving out rules that do not apply
+export function buildRulesReport(pods: Pod[], users: User[], config: MatchConfig): PodRulesReport[] {
+  const drafts = draftsFromPods(pods, users);
+  return pods.map((pod, index) => {
+    const results = evaluateRules(drafts[index], config).filter((result) => result.status !== 'not_applicable');
+    return {
+      podId: pod.id,
+      zone: pod.zone,
+      timeslot: pod.timeslot,
+      score: results.reduce((sum, result) => sum + result.score, 0),
+      results
+    };
+  });
+}
@@ -0,0 +1,81 @@
+import { MatchConfig, PodDraft, User } from './types';
+import { evaluateRules } from './rules';
+import { buddyMatches } from './preferences';
+
+export interface PodScore {
+  total: number;
+  coverage: number;
+  interest: number;
+  size: number;
+  buddies: number;
+  rules: number;
+}
+
+// Relative weight of each objective term. Placing a student outweighs
+// everything else so the optimizer never trades a seat for a nicer pod.
+// Barrier rules carry their own weights in matching-rules.json.
+export const SCORE_WEIGHTS = {
+  member: 10,
+  interest: 4,
+  size: 3,
+  buddy: 3
+};
+
+export const emptyScore = (): PodScore => ({ total: 0, coverage: 0, interest: 0, size: 0, buddies: 0, rules: 0 });
+
+// Credit for two students whose interests only share a taxonomy category
+export const RELATED_INTEREST_CREDIT = 0.5;
+
+// 1 when two students share an interest, partial credit when their interests
+// sit under the same category (e.g. soccer and basketball), 0 otherwise
+export function interestAffinity(a: User, b: User, config: MatchConfig): number {
+  if (a.interests.some((interest) => b.interests.includes(interest))) return 1;
+  const categories = config.interestCategories;
+  const related = a.interests.some(
+    (interest) => categories[interest] && b.interests.some((other) => categories[other] === categories[interest])
+  );
+  return related ? RELATED_INTEREST_CREDIT : 0;
+}
+
+export function scorePod(pod: PodDraft, config: MatchConfig): PodScore {
+  const members = pod.members;
+  const size = members.length;
+  if (size === 0) return emptyScore();
+
+  let pairs = 0;
+  let affinity = 0;
+  for (let i = 0; i < size; i++) {
+    for (let j = i + 1; j < size; j++) {
+      pairs++;
+      affinity += interestAffinity(members[i], members[j], config);
+    }
+  }
+
+  const coverage = SCORE_WEIGHTS.member * size;
+  const interest = pairs > 0 ? (SCORE_WEIGHTS.interest * size * affinity) / pairs : 0;
+  const sizeTerm = -SCORE_WEIGHTS.size * Math.abs(size - config.targetPodSize);
+  const buddies = SCORE_WEIGHTS.buddy * buddyMatches(members);
+  const rules = evaluateRules(pod, config).reduce((sum, result) => sum + result.score, 0);
+  return {
+    total: coverage + interest + sizeTerm + buddies + rules,
+    coverage,
+    interest,
+    size: sizeTerm,
+    buddies,
+    rules
+  };
+}
+
+export function scorePods(pods: PodDraft[], config: MatchConfig): PodScore {
+  return pods.reduce((acc, pod) => {
+    const score = scorePod(pod, config);
+    return {
+      total: acc.total + score.total,
+      coverage: acc.coverage + score.coverage,
+      interest: acc.interest + score.interest,
+      size: acc.size + score.size,
+      buddies: acc.buddies + score.buddies,
+      rules: acc.rules + score.rules
+    };
+  }, emptyScore());
+}
@@ -0,0 +1,143 @@
+import { parseTimeslot } from '../../src/lib/timeslots';
+import { isVirtualZone } from '../../src/lib/zones';
+import { MatchConfig, Pod, Space, User } from './types';
+import { SpaceFeature } from './rules';
+
+export type UnseatedReason = 'no_space_in_zone' | 'too_large' | 'no_accessible_space' | 'all_booked' | 'no_meeting_link';
+
+export interface UnseatedPod {
+  podId: string;
+  zone: string;
+  timeslot: string;
+  size: number;
+  needs: SpaceFeature[];
+  reason: UnseatedReason;
+  detail: string;
+}
+
+export interface SpaceAssignment {
+  pods: Pod[];
+  unseated: UnseatedPod[];
+}
+
+// Features a pod's home space must have, from the `space` rules: e.g. any
+// mobility member needs an ADA space, any sensory member a sensory-friendly one
+export function spaceNeeds(pod: Pod, users: User[], config: MatchConfig): SpaceFeature[] {
+  const members = users.filter((u) => pod.memberIds.includes(u.id));
+  const needs = config.rules
+    .filter((rule) => rule.kind === 'space' && members.some((u) => u.tags.includes(rule.tag)))
+    .map((rule) => rule.feature!);
+  return Array.from(new Set(needs));
+}
+
+// Two meetings in one space clash when they start less than a meeting
+// length apart on the same day
+function clashes(a: string, b: string, config: MatchConfig): boolean {
+  const first = parseTimeslot(a);
+  const second = parseTimeslot(b);
+  if (!first || !second) return a === b;
+  return first.day === second.day && Math.abs(first.start - second.start) < config.meetingMinutes;
+}
+
+const fits = (space: Space, pod: Pod, needs: SpaceFeature[]) =>
+  space.zone === pod.zone &&
+  space.available !== false &&
+  space.capacity >= pod.memberIds.length &&
+  needs.every((need) => space[need]);
+
+function explainUnseated(pod: Pod, needs: SpaceFeature[], spaces: Space[]): UnseatedPod {
+  const base = { podId: pod.id, zone: pod.zone, timeslot: pod.timeslot, size: pod.memberIds.length, needs };
+  const inZone = spaces.filter((space) => space.zone === pod.zone && space.available !== false);
+  if (inZone.length === 0) {
+    return { ...base, reason: 'no_space_in_zone', detail: `No available space in ${pod.zone}.` };
+  }
+  const largeEnough = inZone.filter((space) => space.capacity >= pod.memberIds.length);
+  if (largeEnough.length === 0) {
+    return {
+      ...base,
+      reason: 'too_large',
+      detail: `The largest ${pod.zone} space seats ${Math.max(...inZone.map((space) => space.capacity))}; the pod has ${pod.memberIds.length}.`
+    };
+  }
+  if (!largeEnough.some((space) => needs.every((need) => space[need]))) {
+    return {
+      ...base,
+      reason: 'no_accessible_space',
+      detail: `No ${pod.zone} space large enough is ${needs.join(' and ')}.`
+    };
+  }
+  return {
+    ...base,
+    reason: 'all_booked',
+    detail: `Every suitable ${pod.zone} space is booked around ${pod.timeslot}.`
+  };
+}
+
+// Virtual pods keep the link they have, or get one from the template
+function meetingLinkFor(pod: Pod, config: MatchConfig): string | null {
+  if (pod.meetingLink) return pod.meetingLink;
+  return config.meetingLinkTemplate ? config.meetingLinkTemplate.split('{podId}').join(pod.id) : null;
+}
+
+// Give each pod a home space that seats everyone, has what its members
+// need and is not already booked for an overlapping meeting. Pods keep a
+// space that still works; the rest are seated scarcest first in the
+// smallest suitable space, saving big and accessible rooms for pods that
+// need them. `booked` holds pods already seated outside this run. Virtual
+// pods get a meeting link instead of a space.
+export function assignSpaces(pods: Pod[], users: User[], config: MatchConfig, booked: Pod[] = []): SpaceAssignment {
+  const online = pods.filter((pod) => isVirtualZone(pod.zone));
+  const onlinePods = online.map((pod) => ({ ...pod, spaceId: null, meetingLink: meetingLinkFor(pod, config) }));
+  const offline = pods.filter((pod) => !isVirtualZone(pod.zone));
+  const seating = seatPods(offline, users, config, booked);
+  const withoutLink: UnseatedPod[] = onlinePods
+    .filter((pod) => !pod.meetingLink)
+    .map((pod) => ({
+      podId: pod.id,
+      zone: pod.zone,
+      timeslot: pod.timeslot,
+      size: pod.memberIds.length,
+      needs: [],
+      reason: 'no_meeting_link',
+      detail: 'Virtual pod has no meeting link yet; the captain can add one on the dashboard.'
+    }));
+  const byId = new Map([...seating.pods, ...onlinePods].map((pod) => [pod.id, pod]));
+  return {
+    pods: pods.map((pod) => byId.get(pod.id)!),
+    unseated: [...seating.unseated, ...withoutLink]
+  };
+}
+
+function seatPods(pods: Pod[], users: User[], config: MatchConfig, booked: Pod[]): SpaceAssignment {
+  const bookings = booked.filter((pod) => pod.spaceId).map((pod) => ({ spaceId: pod.spaceId!, timeslot: pod.timeslot }));
+  const isFree = (space: Space, pod: Pod) =>
+    !bookings.some((booking) => booking.spaceId === space.id && clashes(booking.timeslot, pod.timeslot, config));
+  const needsByPod = new Map(pods.map((pod) => [pod, spaceNeeds(pod, users, config)]));
+  const seated = new Map<Pod, string | null>();
+
+  pods.forEach((pod) => {
+    const current = pod.spaceId ? config.spaces.find((space) => space.id === pod.spaceId) : undefined;
+    if (current && fits(current, pod, needsByPod.get(pod)!) && isFree(current, pod)) {
+      seated.set(pod, current.id);
+      bookings.push({ spaceId: current.id, timeslot: pod.timeslot });
+    }
+  });
+
+  const options = (pod: Pod) => config.spaces.filter((space) => fits(space, pod, needsByPod.get(pod)!) && isFree(space, pod));
+  const features = (space: Space) => Number(space.ada) + Number(space.sensoryFriendly);
+  const open = pods.filter((pod) => !seated.has(pod));
+  while (open.length > 0) {
+    open.sort((a, b) => options(a).length - options(b).length);
+    const pod = open.shift()!;
+    const choice = options(pod).sort((a, b) => a.capacity - b.capacity || features(a) - features(b))[0];
+    seated.set(pod, choice ? choice.id : null);
+    if (choice) bookings.push({ spaceId: choice.id, timeslot: pod.timeslot });
+  }
+
+  return {
+    pods: pods.map((pod) => ({ ...pod, spaceId: seated.get(pod) ?? null })),
+    unseated: pods
+      .filter((pod) => !seated.get(pod))
+      .map((pod) => explainUnseated(pod, needsByPod.get(pod)!, config.spaces))
+  };
+}
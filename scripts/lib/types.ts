@@ -0,0 +1,97 @@
+// Shared shapes for the Node matching scripts. These mirror the JSON files
+// under public/data so the dashboard can read whatever the scripts write.
+
+import { MEETING_MINUTES } from '../../src/lib/timeslots';
+import { MatchingRule } from './rules';
+
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  zone: string;
+  interests: string[];
+  times: string[];
+  tags: string[];
+  // Private match preferences from students.csv; never written to users.json
+  buddyIds?: string[];
+  avoidIds?: string[];
+}
+
+export interface Pod {
+  id: string;
+  zone: string;
+  timeslot: string;
+  interests: string[];
+  tags: string[];
+  memberIds: string[];
+  points: number;
+  level: number;
+  vibe: number;
+  captainId?: string | null;
+  spaceId?: string | null;
+  // Virtual pods meet online instead of in a space
+  meetingLink?: string | null;
+}
+
+export interface Space {
+  id: string;
+  name: string;
+  zone: string;
+  ada: boolean;
+  sensoryFriendly: boolean;
+  capacity: number;
+  available?: boolean;
+}
+
+// One entry of captains.json, exported from the Captain Console's
+// applications; only approved captains are assigned to pods
+export interface CaptainRecord {
+  id: string;
+  name: string;
+  email: string;
+  zones: string[];
+  availability: string[];
+  status: string;
+}
+
+// Working pod used while the matcher is still moving people around. `id`
+// and `spaceId` are only set for pods carried over from an existing pods.json.
+export interface PodDraft {
+  id?: string;
+  spaceId?: string | null;
+  zone: string;
+  timeslot: string;
+  members: User[];
+}
+
+export interface MatchConfig {
+  minPodSize: number;
+  maxPodSize: number;
+  targetPodSize: number;
+  maxPasses: number;
+  // Length of a pod meeting; everyone's availability must cover it
+  meetingMinutes: number;
+  // Shuffle students with this seed before matching; null keeps CSV order
+  seed: number | null;
+  // Canonical interest name -> taxonomy category, for partial overlap
+  interestCategories: Record<string, string>;
+  // Barrier-aware rules from matching-rules.json, scored per pod
+  rules: MatchingRule[];
+  // Meeting spaces pods are seated in and the space rules check against
+  spaces: Space[];
+  // Link for new virtual pods; "{podId}" is replaced with the pod's ID
+  meetingLinkTemplate: string | null;
+}
+
+export const DEFAULT_MATCH_CONFIG: MatchConfig = {
+  minPodSize: 5,
+  maxPodSize: 8,
+  targetPodSize: 6,
+  maxPasses: 25,
+  meetingMinutes: MEETING_MINUTES,
+  seed: null,
+  interestCategories: {},
+  rules: [],
+  spaces: [],
+  meetingLinkTemplate: null
+};
@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { parse as csvParse } from 'csv-parse/sync';
+import { InterestLookup, canonicalizeInterests } from '../../src/lib/interests';
+import { normalizeEmail } from '../../src/lib/emails';
+import { User } from './types';
+import { StudentRecord, ValidationResult, validateRows } from './validation';
+
+export class RosterError extends Error {}
+
+// Stable ID from the normalized email, so sorting or inserting rows in
+// students.csv never moves a student's points, check-ins or quest keys
+export function userIdForEmail(email: string): string {
+  const digest = crypto.createHash('sha1').update(normalizeEmail(email)).digest('hex');
+  return `u-${digest.slice(0, 8)}`;
+}
+
+// Assign IDs to validated rows. An explicit `id` column wins over the
+// email-derived ID; two rows resolving to the same ID is an error.
+export function assignUserIds(records: StudentRecord[]): User[] {
+  const rowsById = new Map<string, number>();
+  const problems: string[] = [];
+  const users = records.map((record) => {
+    const id = record.id || userIdForEmail(record.email);
+    if (rowsById.has(id)) {
+      problems.push(`row ${record.row}: user ID ${id} collides with row ${rowsById.get(id)}`);
+    } else {
+      rowsById.set(id, record.row);
+    }
+    return {
+      id,
+      name: record.name,
+      email: record.email,
+      zone: record.zone,
+      interests: record.interests,
+      times: record.times,
+      tags: record.tags
+    };
+  });
+  if (problems.length > 0) {
+    throw new RosterError(`Unable to assign stable user IDs:\n  ${problems.join('\n  ')}`);
+  }
+
+  // Buddy and do-not-match emails become user IDs. Someone who is not in
+  // this CSV still resolves to the ID they would get, so lists also apply
+  // to students already seated from an earlier run.
+  const idsByEmail = new Map(users.map((u) => [u.email, u.id]));
+  const resolve = (emails: string[]) => emails.map((email) => idsByEmail.get(email) ?? userIdForEmail(email));
+  return users.map((user, index) => ({
+    ...user,
+    buddyIds: resolve(records[index].buddies),
+    avoidIds: resolve(records[index].avoid)
+  }));
+}
+
+// The fields users.json may carry. Buddy and do-not-match lists only live in
+// memory during a match run and never reach a file the app serves.
+export function publicProfile(user: User): User {
+  const { id, name, email, zone, interests, times, tags } = user;
+  return { id, name, email, zone, interests, times, tags };
+}
+
+// Read students.csv, validate every row and return the users that are safe
+// to match along with the validation result for the report. Interests are
+// rewritten to their canonical taxonomy names.
+export function loadStudents(csvPath: string, interests: InterestLookup): { users: User[]; validation: ValidationResult } {
+  const content = fs.readFileSync(csvPath, 'utf8');
+  let columns: string[] = [];
+  const rows: Record<string, unknown>[] = csvParse(content, {
+    columns: (header: string[]) => {
+      columns = header.map((column) => column.trim());
+      return columns;
+    },
+    skip_empty_lines: true
+  });
+  const validation = validateRows(columns, rows);
+  // Without the core columns nothing can be matched; stop before pods.json is overwritten
+  const headerIssue = validation.issues.find((issue) => issue.field === 'header');
+  if (headerIssue) {
+    throw new RosterError(`${csvPath}: ${headerIssue.message}`);
+  }
+  const users = assignUserIds(validation.records).map((u) => ({
+    ...u,
+    interests: canonicalizeInterests(u.interests, interests)
+  }));
+  return { users, validation };
+}
@@ -0,0 +1,177 @@
+import { TAG_OPTIONS } from '../../src/lib/tagOptions';
+import { normalizeAvailability } from '../../src/lib/timeslots';
+import { STUDENT_ZONES } from '../../src/lib/zones';
+import { isEmail, normalizeEmail, parseEmailList } from '../../src/lib/emails';
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface RowIssue {
+  row: number;
+  severity: IssueSeverity;
+  field: string;
+  message: string;
+}
+
+// A students.csv row after validation, with values in canonical form
+export interface StudentRecord {
+  row: number;
+  id: string;
+  name: string;
+  email: string;
+  zone: string;
+  interests: string[];
+  times: string[];
+  tags: string[];
+  // Optional "match me with" emails; a soft preference
+  buddies: string[];
+  // Optional "please don't match me with" emails; a hard constraint that is
+  // private to the matcher and never written to any output file
+  avoid: string[];
+}
+
+export interface ValidationResult {
+  records: StudentRecord[];
+  issues: RowIssue[];
+  totalRows: number;
+}
+
+export const REQUIRED_COLUMNS = ['name', 'email', 'zone', 'interests', 'times'];
+
+const KNOWN_TAGS = new Set(TAG_OPTIONS.map((option) => option.value));
+
+const splitList = (value: unknown): string[] =>
+  String(value ?? '')
+    .split(/;|,/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+// Check every row and keep only the ones that are safe to match. Values that
+// can be repaired (zone casing, "wed 12:30pm") are rewritten with a warning;
+// unreadable times and unknown tags are dropped with a warning as long as the row
+// still has a usable timeslot.
+export function validateRows(columns: string[], rows: Record<string, unknown>[]): ValidationResult {
+  const issues: RowIssue[] = [];
+  const missingColumns = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+  if (missingColumns.length > 0) {
+    issues.push({
+      row: 1,
+      severity: 'error',
+      field: 'header',
+      message: `missing required column(s): ${missingColumns.join(', ')}`
+    });
+    return { records: [], issues, totalRows: rows.length };
+  }
+
+  const rowsByEmail = new Map<string, number>();
+  const records: StudentRecord[] = [];
+
+  rows.forEach((raw, idx) => {
+    const row = idx + 2; // header is line 1
+    const rowIssues: RowIssue[] = [];
+    const report = (severity: IssueSeverity, field: string, message: string) =>
+      rowIssues.push({ row, severity, field, message });
+
+    const name = String(raw.name ?? '').trim();
+    if (!name) report('error', 'name', 'name is empty');
+
+    const email = normalizeEmail(String(raw.email ?? ''));
+    if (!email) {
+      report('error', 'email', 'email is empty');
+    } else if (!isEmail(email)) {
+      report('error', 'email', `"${email}" is not a valid email address`);
+    } else if (!email.endsWith('@asu.edu')) {
+      report('error', 'email', `${email} is not an asu.edu address`);
+    } else if (rowsByEmail.has(email)) {
+      report('error', 'email', `${email} already used on row ${rowsByEmail.get(email)}`);
+    } else {
+      rowsByEmail.set(email, row);
+    }
+
+    const rawZone = String(raw.zone ?? '').trim();
+    const zone = STUDENT_ZONES.find((value) => value.toLowerCase() === rawZone.toLowerCase());
+    if (!rawZone) {
+      report('error', 'zone', 'zone is empty');
+    } else if (!zone) {
+      report('error', 'zone', `unknown zone "${rawZone}" (expected ${STUDENT_ZONES.join(', ')})`);
+    } else if (zone !== rawZone) {
+      report('warning', 'zone', `normalized "${rawZone}" to "${zone}"`);
+    }
+
+    const interests = splitList(raw.interests);
+    if (interests.length === 0) report('warning', 'interests', 'no interests listed');
+
+    const times: string[] = [];
+    splitList(raw.times).forEach((value) => {
+      const normalized = normalizeAvailability(value);
+      if (!normalized) {
+        report('warning', 'times', `dropped unreadable time "${value}" (expected e.g. "Tue 11:30" or "Tue 11:00-13:00")`);
+        return;
+      }
+      if (normalized !== value) report('warning', 'times', `normalized "${value}" to "${normalized}"`);
+      if (!times.includes(normalized)) times.push(normalized);
+    });
+    if (times.length === 0) report('error', 'times', 'no valid timeslots');
+
+    const tags = splitList(raw.tags).filter((tag) => {
+      if (KNOWN_TAGS.has(tag) || tag.startsWith('other:')) return true;
+      report('warning', 'tags', `dropped unknown tag "${tag}"`);
+      return false;
+    });
+
+    const buddyList = parseEmailList(String(raw.buddies ?? ''));
+    buddyList.invalid.forEach((value) => report('warning', 'buddies', `dropped invalid email "${value}"`));
+    const buddies = buddyList.emails.filter((value) => value !== email);
+
+    // The report is shared with coordinators, so do-not-match problems are
+    // counted but the addresses themselves are never echoed
+    const avoidList = parseEmailList(String(raw.do_not_match ?? ''));
+    if (avoidList.invalid.length > 0) {
+      report('warning', 'do_not_match', `dropped ${avoidList.invalid.length} invalid email(s)`);
+    }
+    const avoid = avoidList.emails.filter((value) => value !== email);
+
+    issues.push(...rowIssues);
+    if (rowIssues.some((issue) => issue.severity === 'error')) return;
+    records.push({
+      row,
+      id: String(raw.id ?? '').trim(),
+      name,
+      email,
+      zone: zone!,
+      interests,
+      times,
+      tags,
+      buddies: buddies.filter((value) => !avoid.includes(value)),
+      avoid
+    });
+  });
+
+  return { records, issues, totalRows: rows.length };
+}
+
+// Plain-text report coordinators can read or attach to a ticket. It has no
+// timestamp, so rerunning on the same CSV leaves it unchanged.
+export function formatValidationReport(source: string, result: ValidationResult): string {
+  const errors = result.issues.filter((issue) => issue.severity === 'error');
+  const warnings = result.issues.filter((issue) => issue.severity === 'warning');
+  const rejectedRows = result.totalRows - result.records.length;
+  const lines = [
+    'students.csv validation report',
+    `Source: ${source}`,
+    `Rows: ${result.totalRows} · valid: ${result.records.length} · rejected: ${rejectedRows} · warnings: ${warnings.length}`,
+    ''
+  ];
+  if (result.issues.length === 0) {
+    lines.push('No problems found.');
+  }
+  if (errors.length > 0) {
+    lines.push('Errors (row skipped):');
+    errors.forEach((issue) => lines.push(`  row ${issue.row} · ${issue.field}: ${issue.message}`));
+    lines.push('');
+  }
+  if (warnings.length > 0) {
+    lines.push('Warnings:');
+    warnings.forEach((issue) => lines.push(`  row ${issue.row} · ${issue.field}: ${issue.message}`));
+  }
+  return `${lines.join('\n').trimEnd()}\n`;
+}
@@ -0,0 +1,137 @@
+import { MatchConfig, Pod, User } from './types';
+import { interestAffinity } from './scoring';
+import { canMeet, meetingSlots } from './availability';
+import { canJoin } from './preferences';
+
+export type WaitlistReason = 'zone_too_small' | 'no_slot_partners' | 'pods_full' | 'preference_conflict' | 'interest_mismatch';
+
+export interface CandidatePod {
+  podId: string;
+  timeslot: string;
+  slotMatch: boolean;
+  sharedInterests: string[];
+  openSeats: number;
+}
+
+export interface WaitlistEntry {
+  userId: string;
+  name: string;
+  email: string;
+  zone: string;
+  times: string[];
+  interests: string[];
+  tags: string[];
+  reason: WaitlistReason;
+  detail: string;
+  candidatePods: CandidatePod[];
+}
+
+const MAX_CANDIDATES = 3;
+
+// Whether a do-not-match request, made by either student, keeps `user` out
+// of this pod. Members missing from `users` (captains, former students)
+// cannot have made one.
+function blockedFrom(user: User, pod: Pod, usersById: Map<string, User>): boolean {
+  const members = pod.memberIds.map((id) => usersById.get(id)).filter((u): u is User => u !== undefined);
+  return !canJoin(user, members);
+}
+
+// Work out why the matcher could not seat this student
+function diagnose(
+  user: User,
+  zoneUsers: User[],
+  zonePods: Pod[],
+  usersById: Map<string, User>,
+  config: MatchConfig
+): { reason: WaitlistReason; detail: string } {
+  if (zoneUsers.length < config.minPodSize) {
+    return {
+      reason: 'zone_too_small',
+      detail: `Only ${zoneUsers.length} student(s) signed up in ${user.zone}; a pod needs ${config.minPodSize}.`
+    };
+  }
+
+  const slots = meetingSlots(zoneUsers).filter((slot) => canMeet(user, slot, config));
+  const partners = zoneUsers.filter((u) => u !== user && slots.some((slot) => canMeet(u, slot, config)));
+  const bestSlotCount = Math.max(0, ...slots.map((slot) => zoneUsers.filter((u) => canMeet(u, slot, config)).length));
+  const slotPods = zonePods.filter((pod) => canMeet(user, pod.timeslot, config));
+  if (bestSlotCount < config.minPodSize && slotPods.length === 0) {
+    return {
+      reason: 'no_slot_partners',
+      detail: `At most ${bestSlotCount} ${user.zone} student(s) can meet for ${config.meetingMinutes} minutes around ${
+        user.times.join(', ') || '(none)'
+      }.`
+    };
+  }
+
+  if (slotPods.length > 0 && slotPods.every((pod) => pod.memberIds.length >= config.maxPodSize)) {
+    return {
+      reason: 'pods_full',
+      detail: `Every ${user.zone} pod meeting at these times already has ${config.maxPodSize} members.`
+    };
+  }
+
+  // Never says who made the request: the waitlist is shared with advisors
+  const openPods = slotPods.filter((pod) => pod.memberIds.length < config.maxPodSize);
+  if (openPods.length > 0 && openPods.every((pod) => blockedFrom(user, pod, usersById))) {
+    return {
+      reason: 'preference_conflict',
+      detail: `Every ${user.zone} pod with open seats at these times includes a do-not-match request involving this student.`
+    };
+  }
+
+  if (partners.length > 0 && !partners.some((u) => interestAffinity(user, u, config) > 0)) {
+    return {
+      reason: 'interest_mismatch',
+      detail: 'No student available at the same times shares or relates to any listed interest.'
+    };
+  }
+
+  return {
+    reason: 'pods_full',
+    detail: 'Students free at these times are already committed to pods in other slots.'
+  };
+}
+
+// Rank pods in the student's zone an advisor could try placing them in by
+// hand, leaving out pods a do-not-match request rules out
+function nearestPods(user: User, zonePods: Pod[], usersById: Map<string, User>, config: MatchConfig): CandidatePod[] {
+  return zonePods
+    .filter((pod) => !blockedFrom(user, pod, usersById))
+    .map((pod) => ({
+      podId: pod.id,
+      timeslot: pod.timeslot,
+      slotMatch: canMeet(user, pod.timeslot, config),
+      sharedInterests: pod.interests.filter((interest) => user.interests.includes(interest)),
+      openSeats: Math.max(config.maxPodSize - pod.memberIds.length, 0)
+    }))
+    .sort(
+      (a, b) =>
+        Number(b.slotMatch) - Number(a.slotMatch) ||
+        Number(b.openSeats > 0) - Number(a.openSeats > 0) ||
+        b.sharedInterests.length - a.sharedInterests.length ||
+        b.openSeats - a.openSeats
+    )
+    .slice(0, MAX_CANDIDATES);
+}
+
+export function buildWaitlist(unmatched: User[], users: User[], pods: Pod[], config: MatchConfig): WaitlistEntry[] {
+  const usersById = new Map(users.map((u) => [u.id, u]));
+  return unmatched.map((user) => {
+    const zoneUsers = users.filter((u) => u.zone === user.zone);
+    const zonePods = pods.filter((pod) => pod.zone === user.zone);
+    const { reason, detail } = diagnose(user, zoneUsers, zonePods, usersById, config);
+    return {
+      userId: user.id,
+      name: user.name,
+      email: user.email,
+      zone: user.zone,
+      times: user.times,
+      interests: user.interests,
+      tags: user.tags,
+      reason,
+      detail,
+      candidatePods: nearestPods(user, zonePods, usersById, config)
+    };
+  });
+}
@@ -1,166 +1,200 @@
 import fs from 'fs';
 import path from 'path';
-import { parse as csvParse } from 'csv-parse/sync';
-
-interface User {
-  id: string;
-  name: string;
-  email: string;
-  zone: string;
-  interests: string[];
-  times: string[];
-  tags: string[];
-}
-
-interface Pod {
-  id: string;
-  zone: string;
-  timeslot: string;
-  interests: string[];
-  tags: string[];
-  memberIds: string[];
-  points: number;
-  level: number;
-  vibe: number;
-}
-
-// Read CSV file and parse users
-function readUsers(csvPath: string): User[] {
-  const content = fs.readFileSync(csvPath, 'utf8');
-  const records = csvParse(content, { columns: true, skip_empty_lines: true });
-  return records.map((rec: any, idx: number) => ({
-    id: `u-${(idx + 1).toString().padStart(3, '0')}`,
-    name: rec.name.trim(),
-    email: rec.email.trim(),
-    zone: rec.zone.trim(),
-    interests: rec.interests
-      .split(/;|,/)
-      .map((s: string) => s.trim())
-      .filter(Boolean),
-    times: rec.times
-      .split(/;|,/)
-      .map((s: string) => s.trim())
-      .filter(Boolean),
-    tags: rec.tags
-      ? rec.tags
-          .split(/;|,/)
-          .map((s: string) => s.trim())
-          .filter(Boolean)
-      : []
-  }));
-}
-
-// Generate a simple unique ID
-function uid(prefix: string, num: number): string {
-  return `${prefix}-${num.toString().padStart(3, '0')}`;
-}
-
-// Matching algorithm: group by zone, time slot, shared interest and tags
-function matchPods(users: User[]): Pod[] {
-  const pods: Pod[] = [];
-  let podCounter = 1;
-
-  // Group users by zone
-  const usersByZone: { [zone: string]: User[] } = {};
-  users.forEach((u) => {
-    usersByZone[u.zone] = usersByZone[u.zone] || [];
-    usersByZone[u.zone].push(u);
+import { CaptainRecord, DEFAULT_MATCH_CONFIG, MatchConfig, Pod, Space, User } from './lib/types';
+import { PodScore } from './lib/scoring';
+import { optimizeMatch } from './lib/optimizer';
+import { WaitlistEntry, buildWaitlist } from './lib/waitlist';
+import { draftsFromPods, retiredPodsPath, toPods } from './lib/pods';
+import { CliError, MATCH_USAGE, REPO_ROOT, parseMatchArgs } from './lib/cli';
+import { RosterError, loadStudents, publicProfile } from './lib/users';
+import { formatValidationReport } from './lib/validation';
+import { readJson, readJsonArray, writeJson, writeText } from './lib/io';
+import { UnassignedPod, approvedCaptains, assignCaptains, captainUsers } from './lib/captains';
+import { UnseatedPod, assignSpaces } from './lib/spaces';
+import { hasConflict } from './lib/preferences';
+import { PodExplanation, explainPods } from './lib/explain';
+import { DEFAULT_RULES, MatchingRule, PodRulesReport, RulesError, buildRulesReport, parseRules } from './lib/rules';
+import { buildInterestLookup, interestCategories, parseTaxonomy } from '../src/lib/interests';
+
+const formatScore = (score: PodScore) =>
+  `${score.total.toFixed(1)} (coverage ${score.coverage.toFixed(1)}, interest ${score.interest.toFixed(1)}, ` +
+  `size ${score.size.toFixed(1)}, buddies ${score.buddies.toFixed(1)}, rules ${score.rules.toFixed(1)})`;
+
+// Per-zone summary printed by --dry-run in place of writing files
+function printSummary(pods: Pod[], waitlist: WaitlistEntry[]): void {
+  const zones = Array.from(new Set([...pods.map((pod) => pod.zone), ...waitlist.map((entry) => entry.zone)]));
+  zones.forEach((zone) => {
+    const zonePods = pods.filter((pod) => pod.zone === zone);
+    const sizes = zonePods.map((pod) => pod.memberIds.length).join(', ') || 'none';
+    const waiting = waitlist.filter((entry) => entry.zone === zone).length;
+    console.log(`  ${zone}: ${zonePods.length} pod(s) [sizes ${sizes}], ${waiting} waitlisted`);
   });
+}
 
-  const isMidday = (slot: string) => {
-    return /11:\d{2}|12:\d{2}|13:\d{2}/.test(slot);
-  };
-
-  Object.keys(usersByZone).forEach((zone) => {
-    const zoneUsers = usersByZone[zone];
-
-    // Build index by timeslot
-    const timeslots = Array.from(
-      new Set(zoneUsers.flatMap((u) => u.times))
+// One line per rule: how many pods met it and which ones did not
+function printRulesSummary(rules: MatchingRule[], report: PodRulesReport[]): void {
+  rules.forEach((rule) => {
+    const outcomes = report.flatMap((pod) =>
+      pod.results.filter((result) => result.ruleId === rule.id).map((result) => ({ podId: pod.podId, result }))
     );
-
-    // Process slots, starting with midday slots to favour commuters
-    timeslots.sort((a, b) => {
-      const aMid = isMidday(a) ? 1 : 0;
-      const bMid = isMidday(b) ? 1 : 0;
-      return bMid - aMid;
-    });
-
-    timeslots.forEach((slot) => {
-      // Filter users available at this slot
-      let slotUsers = zoneUsers.filter((u) => u.times.includes(slot));
-      // Sort to prioritise commuters for midday slots
-      slotUsers.sort((a, b) => {
-        const aComm = a.tags.includes('commuter') ? 1 : 0;
-        const bComm = b.tags.includes('commuter') ? 1 : 0;
-        return bComm - aComm;
-      });
-
-      // Greedy grouping: create pods while enough users remain
-      while (slotUsers.length >= 5) {
-        const podMembers: User[] = [];
-        const first = slotUsers.shift()!;
-        podMembers.push(first);
-
-        // Add others who share at least one interest with the first user
-        for (let i = slotUsers.length - 1; i >= 0 && podMembers.length < 8; i--) {
-          const candidate = slotUsers[i];
-          if (
-            candidate.interests.some((i1) => first.interests.includes(i1))
-          ) {
-            podMembers.push(candidate);
-            slotUsers.splice(i, 1);
-          }
-        }
-
-        // If we have an international student but no language_ally, try to add one
-        const hasInternational = podMembers.some((u) => u.tags.includes('international'));
-        const hasLanguageAlly = podMembers.some((u) => u.tags.includes('language_ally'));
-        if (hasInternational && !hasLanguageAlly) {
-          const idxLa = slotUsers.findIndex((u) => u.tags.includes('language_ally'));
-          if (idxLa >= 0 && podMembers.length < 8) {
-            podMembers.push(slotUsers.splice(idxLa, 1)[0]);
-          }
-        }
-
-        // If still short, fill with any remaining users
-        while (podMembers.length < 5 && slotUsers.length > 0) {
-          podMembers.push(slotUsers.shift()!);
-        }
-
-        // Assemble pod
-        const podId = uid('pod', podCounter++);
-        const commonInterests = Array.from(
-          new Set(podMembers.flatMap((u) => u.interests))
-        );
-        const allTags = Array.from(new Set(podMembers.flatMap((u) => u.tags)));
-        const pod: Pod = {
-          id: podId,
-          zone: zone,
-          timeslot: slot,
-          interests: commonInterests,
-          tags: allTags,
-          memberIds: podMembers.map((u) => u.id),
-          points: 0,
-          level: 1,
-          vibe: 0
-        };
-        pods.push(pod);
-      }
-    });
+    const violated = outcomes.filter((entry) => entry.result.status === 'violated').map((entry) => entry.podId);
+    const satisfied = outcomes.length - violated.length;
+    const pods = violated.length > 0 ? ` (${violated.join(', ')})` : '';
+    console.log(`  ${rule.id}: ${satisfied} satisfied, ${violated.length} violated${pods}`);
   });
-
-  return pods;
 }
 
-function writePods(pods: Pod[], outPath: string): void {
-  fs.writeFileSync(outPath, JSON.stringify(pods, null, 2));
+function main(argv: string[]): void {
+  const options = parseMatchArgs(argv);
+  if (options.help) {
+    console.log(MATCH_USAGE);
+    return;
+  }
+
+  const taxonomy = parseTaxonomy(readJson(options.interests));
+  const rulesFile = readJson(options.rules);
+  const allRules = rulesFile === null ? DEFAULT_RULES : parseRules(rulesFile);
+  const rules = options.commuterPriority ? allRules : allRules.filter((rule) => rule.kind !== 'prefer_midday');
+  const config: MatchConfig = {
+    ...DEFAULT_MATCH_CONFIG,
+    minPodSize: options.minPodSize,
+    maxPodSize: options.maxPodSize,
+    targetPodSize: Math.floor((options.minPodSize + options.maxPodSize) / 2),
+    meetingMinutes: options.meetingMinutes,
+    seed: options.seed,
+    interestCategories: interestCategories(taxonomy),
+    rules,
+    spaces: readJsonArray<Space>(options.spaces),
+    meetingLinkTemplate: options.meetingLink
+  };
+  const inZone = (zone: string) => !options.zone || zone === options.zone;
+  if (!fs.existsSync(options.input)) {
+    throw new CliError(`No student roster at ${options.input} (copy data/students.sample.csv there to try the matcher)`);
+  }
+  const { users: validUsers, validation } = loadStudents(options.input, buildInterestLookup(taxonomy));
+  const users = validUsers.filter((u) => inZone(u.zone));
+  const rejected = validation.totalRows - validation.records.length;
+  console.log(`Validated ${validation.totalRows} row(s): ${validation.records.length} valid, ${rejected} rejected`);
+  // Relative to the repo, so the report reads the same on every machine
+  const source = path.relative(REPO_ROOT, options.input);
+  if (!options.dryRun) {
+    fs.mkdirSync(path.dirname(options.report), { recursive: true });
+    writeText(options.report, formatValidationReport(source, validation));
+    console.log(`Wrote validation report to ${options.report}`);
+  } else if (validation.issues.length > 0) {
+    process.stdout.write(formatValidationReport(source, validation));
+  }
+  if (options.zone && users.length === 0) {
+    console.warn(`No students found in zone "${options.zone}"`);
+  }
+
+  // Incremental runs keep every current pod and only place students who are
+  // not in one yet; a full run rebuilds pods.json from scratch. Pods outside
+  // --zone are always left exactly as they are.
+  const existingPods = readJsonArray<Pod>(options.output);
+  const existingUsers = readJsonArray<User>(options.users);
+  const otherZonePods = existingPods.filter((pod) => !inZone(pod.zone));
+  const previousPods = options.incremental ? existingPods.filter((pod) => inZone(pod.zone)) : [];
+  const placedIds = new Set(previousPods.flatMap((pod) => pod.memberIds));
+  const newcomers = users.filter((u) => !placedIds.has(u.id));
+  const carried = draftsFromPods(previousPods, [...existingUsers, ...users]);
+  const result = optimizeMatch(newcomers, config, carried);
+  const retiredIds = options.incremental ? readJsonArray<string>(retiredPodsPath(options.output)) : [];
+  const matchedPods = toPods(result.pods, [...otherZonePods, ...previousPods], retiredIds);
+  const waitlist = buildWaitlist(result.unmatched, users, matchedPods, config);
+
+  // Approved captains lead at most one pod each; captains already leading a
+  // pod outside --zone are not available
+  const captainRecords = readJson(options.captains);
+  const captains = Array.isArray(captainRecords)
+    ? approvedCaptains(captainRecords as CaptainRecord[], [...existingUsers, ...users])
+    : null;
+  const taken = new Set(otherZonePods.map((pod) => pod.captainId).filter((id): id is string => !!id));
+  const assignment = captains ? assignCaptains(matchedPods, captains, taken) : { pods: matchedPods, unassigned: [] };
+  // Home spaces: big enough, accessible where members need it, and never
+  // double-booked for overlapping meetings. Virtual pods get a link instead.
+  const seating = assignSpaces(assignment.pods, [...existingUsers, ...users], config, otherZonePods);
+  const zonePods = seating.pods;
+  const pods = [...otherZonePods, ...zonePods];
+
+  // users.json mirrors the roster pods.json points at: this run's students,
+  // earlier members who left the CSV but still hold a seat, and captains
+  const csvIds = new Set(users.map((u) => u.id));
+  const seatedIds = new Set(pods.flatMap((pod) => pod.memberIds));
+  const students = [
+    ...existingUsers.filter((u) => !inZone(u.zone)),
+    ...users,
+    ...existingUsers.filter((u) => inZone(u.zone) && !csvIds.has(u.id) && seatedIds.has(u.id))
+  ];
+  const roster = [...students, ...(captains ? captainUsers(captains, zonePods, students) : [])];
+  const rulesReport = buildRulesReport(zonePods, roster, config);
+  const explanations = explainPods(zonePods, roster, config);
+  const otherZoneWaitlist = options.zone ? readJsonArray<WaitlistEntry>(options.waitlist).filter((entry) => !inZone(entry.zone)) : [];
+  const otherZoneUnassigned = options.zone
+    ? readJsonArray<UnassignedPod>(options.unassigned).filter((entry) => !inZone(entry.zone))
+    : [];
+  const otherZoneUnseated = options.zone
+    ? readJsonArray<UnseatedPod>(options.unseated).filter((entry) => !inZone(entry.zone))
+    : [];
+  const otherZoneExplanations = options.zone
+    ? readJsonArray<PodExplanation>(options.explanations).filter((entry) => !inZone(entry.zone))
+    : [];
+
+  if (options.dryRun) {
+    console.log(`Dry run: would write ${pods.length} pods to ${options.output}`);
+    printSummary(zonePods, waitlist);
+  } else {
+    writeJson(options.output, pods);
+    writeJson(options.users, roster.map(publicProfile));
+    writeJson(options.waitlist, [...otherZoneWaitlist, ...waitlist]);
+    writeJson(options.rulesReport, rulesReport);
+    writeJson(options.explanations, [...otherZoneExplanations, ...explanations]);
+    if (captains) writeJson(options.unassigned, [...otherZoneUnassigned, ...assignment.unassigned]);
+    writeJson(options.unseated, [...otherZoneUnseated, ...seating.unseated]);
+    console.log(`Generated ${pods.length} pods at ${options.output}`);
+    console.log(`Wrote ${roster.length} user(s) to ${options.users}`);
+    console.log(`Wrote ${waitlist.length} waitlisted student(s) to ${options.waitlist}`);
+    console.log(`Wrote rule results for ${rulesReport.length} pod(s) to ${options.rulesReport}`);
+    console.log(`Wrote explanations for ${explanations.length} pod(s) to ${options.explanations}`);
+  }
+  if (captains) {
+    const led = zonePods.length - assignment.unassigned.length;
+    console.log(`Assigned captains to ${led}/${zonePods.length} pod(s) from ${captains.length} approved captain(s)`);
+    assignment.unassigned.forEach((entry) => console.log(`  ${entry.podId} (${entry.zone} ${entry.timeslot}): ${entry.detail}`));
+  } else {
+    console.log(`No captain roster at ${options.captains}; pods keep their current captains`);
+  }
+  // Kept pods are never split up automatically; name only the pod so the
+  // request itself stays private
+  carried
+    .filter((draft) => hasConflict(draft.members))
+    .forEach((draft) => console.warn(`Warning: ${draft.id} holds students who asked not to be matched; review it by hand`));
+  console.log(`Seated ${zonePods.length - seating.unseated.length}/${zonePods.length} pod(s) in a home space or online`);
+  seating.unseated.forEach((entry) => console.log(`  ${entry.podId} (${entry.zone} ${entry.timeslot}): ${entry.detail}`));
+  console.log(`Greedy seed score: ${formatScore(result.seedScore)}`);
+  console.log(`Objective score:   ${formatScore(result.score)} after ${result.passes} pass(es)`);
+  if (rules.length > 0) {
+    console.log('Matching rules:');
+    printRulesSummary(rules, rulesReport);
+  }
+  if (options.incremental) {
+    console.log(`Kept ${previousPods.length} existing pod(s); placed ${newcomers.length - result.unmatched.length}/${newcomers.length} new student(s)`);
+  } else {
+    console.log(`Matched ${users.length - result.unmatched.length}/${users.length} students`);
+  }
 }
 
-// Main
-const studentsPath = path.join(__dirname, '..', 'public', 'data', 'students.csv');
-const podsOutPath = path.join(__dirname, '..', 'public', 'data', 'pods.json');
-const users = readUsers(studentsPath);
-const pods = matchPods(users);
-writePods(pods, podsOutPath);
-console.log(`Generated ${pods.length} pods at ${podsOutPath}`);
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  if (error instanceof CliError) {
+    console.error(error.message);
+    console.error(MATCH_USAGE);
+    process.exit(1);
+  }
+  if (error instanceof RosterError || error instanceof RulesError) {
+    console.error(error.message);
+    process.exit(1);
+  }
+  throw error;
+}
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import readline from 'readline';
+import { Pod, Space, User } from './lib/types';
+import { CliError, REBALANCE_USAGE, parseRebalanceArgs } from './lib/cli';
+import { RosterError, loadStudents } from './lib/users';
+import { readJson, readJsonArray, writeJson } from './lib/io';
+import { formatRebalanceDiff, planRebalance } from './lib/rebalance';
+import { retiredPodsPath } from './lib/pods';
+import { parseAttendance } from '../src/lib/attendance';
+import { buildInterestLookup, parseTaxonomy } from '../src/lib/interests';
+import { getRealWeek } from '../src/lib/weeks';
+
+function confirm(question: string): Promise<boolean> {
+  const prompt = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise((resolve) => {
+    prompt.question(question, (answer) => {
+      prompt.close();
+      resolve(/^y(es)?$/i.test(answer.trim()));
+    });
+  });
+}
+
+async function main(argv: string[]): Promise<void> {
+  const options = parseRebalanceArgs(argv);
+  if (options.help) {
+    console.log(REBALANCE_USAGE);
+    return;
+  }
+
+  if (!fs.existsSync(options.checkins!)) {
+    throw new CliError(`No attendance export at ${options.checkins}`);
+  }
+  const attendance = parseAttendance(readJson(options.checkins!));
+  const week = options.week ?? attendance.week ?? getRealWeek();
+  const inZone = (zone: string) => !options.zone || zone === options.zone;
+  const pods = readJsonArray<Pod>(options.pods);
+  const roster = readJsonArray<User>(options.users);
+  // Do-not-match requests never reach users.json, so read them from the CSV
+  const taxonomy = parseTaxonomy(readJson(options.interests));
+  const students = fs.existsSync(options.input) ? loadStudents(options.input, buildInterestLookup(taxonomy)).users : [];
+  const studentIds = new Set(students.map((u) => u.id));
+  const users = [...roster.filter((u) => !studentIds.has(u.id)), ...students];
+
+  const zonePods = pods.filter((pod) => inZone(pod.zone));
+  const plan = planRebalance(zonePods, users, readJsonArray<Space>(options.spaces), attendance.records, {
+    minPodSize: options.minPodSize,
+    maxPodSize: options.maxPodSize,
+    week,
+    inactiveWeeks: options.inactiveWeeks
+  });
+  console.log(
+    `Read ${attendance.records.length} check-in(s); judging attendance at week ${week} ` +
+      `(inactive after ${options.inactiveWeeks} week(s) without a check-in)`
+  );
+  plan.stuck.forEach((entry) =>
+    console.log(`  ${entry.podId} (${entry.zone} ${entry.timeslot}): ${entry.active}/${entry.size} active, left as is. ${entry.detail}`)
+  );
+  if (plan.proposals.length === 0) {
+    console.log('No pods to merge; pods.json is unchanged');
+    return;
+  }
+
+  console.log(`Proposed changes to ${options.pods}:`);
+  console.log(formatRebalanceDiff(zonePods, plan, users));
+  const approved = options.yes || (process.stdin.isTTY ? await confirm('Apply these changes? [y/N] ') : false);
+  if (!approved) {
+    console.log(process.stdin.isTTY || options.yes ? 'Nothing written' : 'Nothing written; rerun with --yes to apply');
+    return;
+  }
+
+  // Keep every pod in its original order; dissolved pods drop out
+  const nextById = new Map(plan.pods.map((pod) => [pod.id, pod]));
+  const next = pods
+    .map((pod) => (inZone(pod.zone) ? nextById.get(pod.id) : pod))
+    .filter((pod): pod is Pod => pod !== undefined);
+  writeJson(options.pods, next);
+  // Dissolved IDs are never handed out again, or a new pod would inherit
+  // the old one's check-ins, quests and vibe ratings
+  const retiredPath = retiredPodsPath(options.pods);
+  const retired = new Set([...readJsonArray<string>(retiredPath), ...plan.proposals.map((proposal) => proposal.from)]);
+  writeJson(retiredPath, Array.from(retired));
+  console.log(`Wrote ${next.length} pods to ${options.pods} (${pods.length - next.length} dissolved)`);
+  console.log('Run `npm run match -- --incremental` to refresh captains, spaces and the waitlist');
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  if (error instanceof CliError) {
+    console.error(error.message);
+    console.error(REBALANCE_USAGE);
+    process.exit(1);
+  }
+  if (error instanceof RosterError) {
+    console.error(error.message);
+    process.exit(1);
+  }
+  throw error;
+});
@@ -0,0 +1,7 @@
+// Programmatic runner for the explain command; see run-match.js
+require('ts-node').register({
+  transpileOnly: true,
+  compilerOptions: { module: 'CommonJS' },
+});
+
+require('./explain.ts');
@@ -0,0 +1,7 @@
+// Programmatic runner for the validate command; see run-match.js
+require('ts-node').register({
+  transpileOnly: true,
+  compilerOptions: { module: 'CommonJS' },
+});
+
+require('./validate.ts');
@@ -0,0 +1,121 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { CliError, SERVE_USAGE, parseServeArgs } from './lib/cli';
+import { readJson, readJsonArray } from './lib/io';
+import { ApiContext, ApiError, ServerState, emptyState, handleApiRequest } from './lib/api';
+import { Pod, User } from './lib/types';
+
+const API_PREFIX = '/api';
+
+function loadState(filePath: string): ServerState {
+  let stored: unknown;
+  try {
+    stored = readJson(filePath);
+  } catch (error) {
+    throw new CliError(`${filePath} is not valid JSON: ${(error as Error).message}`);
+  }
+  if (stored === null) return emptyState();
+  if (typeof stored !== 'object' || Array.isArray(stored)) {
+    throw new CliError(`${filePath} is not a server state file`);
+  }
+  // Fields added after the file was written start out empty
+  return { ...emptyState(), ...(stored as Partial<ServerState>) };
+}
+
+// Write to a sibling file first so a crash mid-write never leaves half a file
+function saveState(filePath: string, state: ServerState): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const scratch = `${filePath}.tmp`;
+  fs.writeFileSync(scratch, JSON.stringify(state, null, 2));
+  fs.renameSync(scratch, filePath);
+}
+
+function readBody(request: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('error', reject);
+    request.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8').trim();
+      if (!text) return resolve(undefined);
+      try {
+        resolve(JSON.parse(text));
+      } catch {
+        reject(new ApiError(400, 'Request body is not valid JSON'));
+      }
+    });
+  });
+}
+
+function send(response: http.ServerResponse, status: number, body?: unknown): void {
+  // Vite serves the app from another port; let it call in directly too
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, PUT, POST, DELETE, OPTIONS');
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (body === undefined) {
+    response.writeHead(status);
+    response.end();
+    return;
+  }
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+function main(argv: string[]): void {
+  const options = parseServeArgs(argv);
+  if (options.help) {
+    console.log(SERVE_USAGE);
+    return;
+  }
+
+  const context: ApiContext = {
+    state: loadState(options.state),
+    pods: () => readJsonArray<Pod>(options.pods),
+    users: () => readJsonArray<User>(options.users)
+  };
+
+  const server = http.createServer(async (request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const method = request.method ?? 'GET';
+    if (method === 'OPTIONS') return send(response, 204);
+    if (url.pathname !== API_PREFIX && !url.pathname.startsWith(`${API_PREFIX}/`)) {
+      return send(response, 404, { error: `Only ${API_PREFIX}/ routes are served here` });
+    }
+    try {
+      const result = handleApiRequest(context, {
+        method,
+        path: url.pathname.slice(API_PREFIX.length) || '/',
+        query: url.searchParams,
+        body: await readBody(request)
+      });
+      if (result.changed) saveState(options.state, context.state);
+      send(response, result.status, result.body);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        send(response, error.status, { error: error.message });
+      } else {
+        console.error(`${method} ${url.pathname} failed`, error);
+        send(response, 500, { error: 'Internal server error' });
+      }
+    }
+    console.log(`${method} ${url.pathname} ${response.statusCode}`);
+  });
+
+  server.listen(options.port, () => {
+    console.log(`Pods API on http://localhost:${options.port}${API_PREFIX}`);
+    console.log(`State file: ${options.state}`);
+    console.log('Start the app with VITE_STORAGE=http npm run dev to use it');
+  });
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  if (error instanceof CliError) {
+    console.error(error.message);
+    console.error(SERVE_USAGE);
+    process.exit(1);
+  }
+  throw error;
+}
@@ -0,0 +1,47 @@
+import { CliError, VALIDATE_USAGE, parseValidateArgs } from './lib/cli';
+import { readJson } from './lib/io';
+import { IntegrityIssue, checkIntegrity, formatIntegrityReport } from './lib/integrity';
+
+function main(argv: string[]): void {
+  const options = parseValidateArgs(argv);
+  if (options.help) {
+    console.log(VALIDATE_USAGE);
+    return;
+  }
+
+  // Unparseable JSON is a problem to report, not a crash
+  const unreadable: IntegrityIssue[] = [];
+  const load = (filePath: string, file: string): unknown => {
+    try {
+      return readJson(filePath);
+    } catch (error) {
+      unreadable.push({ file, at: '', severity: 'error', message: `Invalid JSON: ${(error as Error).message}` });
+      return [];
+    }
+  };
+  const checked = checkIntegrity(
+    {
+      pods: load(options.pods, 'pods.json'),
+      users: load(options.users, 'users.json'),
+      quests: load(options.quests, 'quests.json'),
+      badges: load(options.badges, 'badges.json'),
+      spaces: load(options.spaces, 'spaces.json'),
+      rewards: load(options.rewards, 'rewards.json')
+    },
+    { minPodSize: options.minPodSize, maxPodSize: options.maxPodSize }
+  );
+  const issues = [...unreadable, ...checked];
+  process.stdout.write(formatIntegrityReport(issues));
+  if (issues.some((issue) => issue.severity === 'error')) process.exitCode = 1;
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  if (error instanceof CliError) {
+    console.error(error.message);
+    console.error(VALIDATE_USAGE);
+    process.exit(1);
+  }
+  throw error;
+}
@@ -7,9 +7,13 @@ import CaptainConsole from './pages/CaptainConsole';
 import Home from './pages/Home';
 import CaptainApply from './pages/CaptainApply';
 import ApplySuccess from './pages/ApplySuccess';
+import Backup from './pages/Backup';
+import SyncStatus from './components/SyncStatus';
 import { Role, getRole, setRole } from './lib/roles';
 import { currentUserId as getCurrentUserId } from './lib/roles';
-import { getPoints, transferLegacyPoints } from './lib/points';
+import { getPoints, pointsOwner } from './lib/points';
+import { subscribe } from './lib/events';
+import { storage } from './lib/storage';
 
 interface SessionState {
   currentUserId: string | null;
@@ -18,19 +22,16 @@ interface SessionState {
   displayName: string | null;
 }
 
-const isBrowser = () => typeof window !== 'undefined' && typeof localStorage !== 'undefined';
+const isBrowser = () => typeof window !== 'undefined';
 
-const readSession = (): SessionState => {
+// Points come from the storage backend, so they arrive after the first render
+const readSession = (points = 0): SessionState => {
   if (!isBrowser()) {
     return { currentUserId: null, role: 'student', points: 0, displayName: null };
   }
   const currentUserId = getCurrentUserId();
   const role = getRole();
-  if (currentUserId) {
-    transferLegacyPoints(currentUserId);
-  }
-  const displayName = localStorage.getItem('currentUserName');
-  const points = getPoints(currentUserId);
+  const displayName = storage.session.get().name;
   return { currentUserId, role, points, displayName };
 };
 
@@ -50,24 +51,27 @@ const App: React.FC = () => {
   const [session, setSession] = useState<SessionState>(() => readSession());
 
   useEffect(() => {
-    const handleStorage = () => setSession(readSession());
-    const handlePointsUpdated = (event: Event) => {
-      const detail = (event as CustomEvent<number | undefined>).detail;
-      setSession((prev) => ({ ...prev, points: typeof detail === 'number' ? detail : readSession().points }));
+    const refreshPoints = () => {
+      getPoints(getCurrentUserId())
+        .then((points) => setSession((prev) => ({ ...prev, points })))
+        .catch((error) => console.error('Unable to load points', error));
     };
-    const handleSessionUpdated = () => setSession(readSession());
-    const handleRoleUpdated = () => setSession(readSession());
-
-    window.addEventListener('storage', handleStorage);
-    window.addEventListener('pods:points-updated', handlePointsUpdated as EventListener);
-    window.addEventListener('pods:session-updated', handleSessionUpdated);
-    window.addEventListener('pods:role-updated', handleRoleUpdated);
-    return () => {
-      window.removeEventListener('storage', handleStorage);
-      window.removeEventListener('pods:points-updated', handlePointsUpdated as EventListener);
-      window.removeEventListener('pods:session-updated', handleSessionUpdated);
-      window.removeEventListener('pods:role-updated', handleRoleUpdated);
+    const resync = () => {
+      setSession((prev) => readSession(prev.points));
+      refreshPoints();
     };
+    refreshPoints();
+
+    const unsubscribers = [
+      subscribe('points-updated', (event) => {
+        if (event.userId === pointsOwner(getCurrentUserId())) {
+          setSession((prev) => ({ ...prev, points: event.points }));
+        }
+      }),
+      subscribe('session-updated', resync),
+      subscribe('role-updated', () => setSession((prev) => readSession(prev.points))),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, []);
 
   const navLinks = useMemo(
@@ -75,6 +79,7 @@ const App: React.FC = () => {
       { to: '/', label: 'Home' },
       { to: '/dashboard', label: 'Dashboard' },
       { to: '/store', label: 'Store' },
+      { to: '/backup', label: 'Backup' },
     ],
     []
   );
@@ -128,6 +133,7 @@ const App: React.FC = () => {
             </div>
           </div>
           <div className="flex flex-wrap items-center gap-3">
+            <SyncStatus />
             {navLinks.map((link) => (
               <NavLink
                 key={link.to}
@@ -175,6 +181,7 @@ const App: React.FC = () => {
             <Route path="/captain" element={<CaptainConsole />} />
             <Route path="/apply" element={<CaptainApply />} />
             <Route path="/apply/success" element={<ApplySuccess />} />
+            <Route path="/backup" element={<Backup />} />
           </Routes>
         </div>
       </main>
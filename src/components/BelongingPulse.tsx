@@ -1,10 +1,12 @@
 import React, { useState } from 'react';
+import { storage } from '../lib/storage';
+import { currentUserId } from '../lib/roles';
 
 /**
  * BelongingPulse is a modal component that prompts the user to
  * reflect on their sense of belonging and connection. It
  * presents three Likert-scale questions and saves the results
- * to localStorage when submitted. The parent can react to
+ * to the pulse history when submitted. The parent can react to
  * new scores via the onSave callback. We intentionally keep
  * this component self-contained so it can be reused or
  * extended in the future.
@@ -39,21 +41,13 @@ const BelongingPulse: React.FC<BelongingPulseProps> = ({ onSave, onClose }) => {
     });
   };
 
-  // Save the scores to localStorage and notify parent. We
-  // append a timestamped entry to the belongingPulse array and
-  // propagate the scores up for immediate UI updates.
+  // Save the scores and notify parent. We append a timestamped
+  // entry to the pulse history and propagate the scores up for
+  // immediate UI updates.
   const handleSave = () => {
-    try {
-      const history: { date: string; scores: number[] }[] = JSON.parse(
-        localStorage.getItem('belongingPulse') || '[]'
-      );
-      history.push({ date: new Date().toISOString(), scores });
-      localStorage.setItem('belongingPulse', JSON.stringify(history));
-    } catch (e) {
-      // If parsing fails, start a new history.
-      const history = [{ date: new Date().toISOString(), scores }];
-      localStorage.setItem('belongingPulse', JSON.stringify(history));
-    }
+    storage.pulses
+      .add(currentUserId(), { date: new Date().toISOString(), scores })
+      .catch((error) => console.error('Unable to save belonging pulse', error));
     onSave(scores);
     onClose();
   };
@@ -0,0 +1,39 @@
+import React from 'react';
+import type { DataError } from '../lib/data';
+
+/**
+ * Lists the data files that failed to load or did not match their schema,
+ * naming the file and field so whoever edited it knows where to look.
+ * Renders nothing when every file loaded.
+ */
+interface DataErrorPanelProps {
+  errors: DataError[];
+}
+
+const DataErrorPanel: React.FC<DataErrorPanelProps> = ({ errors }) => {
+  if (errors.length === 0) return null;
+  return (
+    <section role="alert" className="rounded-2xl border border-red-300 bg-red-50 p-4 text-sm text-red-800 shadow-sm space-y-2">
+      <h2 className="font-semibold">Some pod data could not be loaded</h2>
+      <ul className="space-y-1">
+        {errors.map((error) => (
+          <li key={`${error.file}:${error.field}`}>
+            <code className="font-semibold">public/data/{error.file}</code>
+            {error.field && (
+              <>
+                {' · '}
+                <code>{error.field}</code>
+              </>
+            )}
+            : {error.reason}
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-red-700">
+        The rest of the page uses whatever did load. Fix the file (or run <code>npm run validate</code>) and reload.
+      </p>
+    </section>
+  );
+};
+
+export default DataErrorPanel;
@@ -1,17 +1,8 @@
 import React, { useMemo } from 'react';
+import type { Space } from '../lib/types';
 
 type AvailabilityOverrides = Record<string, boolean>;
 
-export interface Space {
-  id: string;
-  name: string;
-  zone: string;
-  ada: boolean;
-  sensoryFriendly: boolean;
-  capacity: number;
-  available?: boolean;
-}
-
 interface SpacePickerProps {
   zone: string;
   spaces: Space[];
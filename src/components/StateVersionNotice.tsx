@@ -0,0 +1,25 @@
+import React from 'react';
+import type { StateVersionError } from '../lib/storage';
+
+/**
+ * Shown instead of the app when this browser's saved data was written by a
+ * newer build. Nothing is read or written until a current build is loaded.
+ */
+interface StateVersionNoticeProps {
+  error: StateVersionError;
+}
+
+const StateVersionNotice: React.FC<StateVersionNoticeProps> = ({ error }) => (
+  <main className="min-h-screen bg-slate-50 p-6">
+    <section role="alert" className="mx-auto max-w-xl rounded-2xl border border-amber-300 bg-amber-50 p-4 text-sm text-amber-900 shadow-sm space-y-2">
+      <h1 className="font-semibold">Your saved pod data is newer than this version of the app</h1>
+      <p>
+        This browser holds data in format version {error.found}; this build understands up to version {error.supported}. To keep
+        your check-ins, points and badges safe, the app has not opened it.
+      </p>
+      <p className="text-xs text-amber-800">Reload to pick up the latest version of the site, or clear the cached copy and try again.</p>
+    </section>
+  </main>
+);
+
+export default StateVersionNotice;
@@ -0,0 +1,41 @@
+import React, { useEffect, useState } from 'react';
+import { subscribe } from '../lib/events';
+import { pendingChanges } from '../lib/storage';
+
+/**
+ * Header pill that says when the browser is offline and how many check-ins,
+ * quest completions or pulses are still waiting to reach the server.
+ * Renders nothing while online with nothing pending.
+ */
+const SyncStatus: React.FC = () => {
+  const [pending, setPending] = useState<number>(() => pendingChanges());
+  const [online, setOnline] = useState<boolean>(() => typeof navigator === 'undefined' || navigator.onLine);
+
+  useEffect(() => subscribe('sync-updated', (event) => setPending(event.pending)), []);
+
+  useEffect(() => {
+    const handleOnline = () => setOnline(true);
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  if (online && pending === 0) return null;
+  const label = pending > 0 ? `${pending} pending sync` : 'Offline';
+  return (
+    <span
+      role="status"
+      title={pending > 0 ? 'Saved on this device; these changes are sent to your pod once you are back online.' : undefined}
+      className="flex items-center gap-1 rounded-full border border-asuGold/60 bg-asuGold/20 px-3 py-1 text-xs font-semibold text-asuMaroon"
+    >
+      <span aria-hidden>{online ? '⟳' : '⚠'}</span>
+      {!online && pending > 0 ? `Offline · ${label}` : label}
+    </span>
+  );
+};
+
+export default SyncStatus;
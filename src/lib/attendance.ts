@@ -0,0 +1,43 @@
+export const CHECKIN_PREFIX = 'checkin:';
+
+export interface CheckinRecord {
+  podId: string;
+  week: number;
+  userId: string;
+}
+
+// What the Captain Console exports for `npm run rebalance`
+export interface AttendanceExport {
+  week: number;
+  checkins: string[];
+}
+
+export const checkinKey = (podId: string, week: number, userId: string) => `${CHECKIN_PREFIX}${podId}:${week}:${userId}`;
+
+export const parseCheckinKey = (key: string): CheckinRecord | null => {
+  if (!key.startsWith(CHECKIN_PREFIX)) return null;
+  const [podId, week, userId, ...rest] = key.slice(CHECKIN_PREFIX.length).split(':');
+  const parsedWeek = Number(week);
+  if (!podId || !userId || rest.length > 0 || !Number.isInteger(parsedWeek)) return null;
+  return { podId, week: parsedWeek, userId };
+};
+
+// Accepts the console export, a bare list of keys, or a localStorage dump
+// ({ "checkin:pod-001:3:u-1234abcd": "1", ... }); other keys are ignored
+export const parseAttendance = (value: unknown): { week: number | null; records: CheckinRecord[] } => {
+  const source = value as Partial<AttendanceExport> | null;
+  const keys = Array.isArray(value)
+    ? value
+    : Array.isArray(source?.checkins)
+      ? source!.checkins
+      : value && typeof value === 'object'
+        ? Object.entries(value as Record<string, unknown>)
+            .filter(([, stored]) => Boolean(stored))
+            .map(([key]) => key)
+        : [];
+  const records = keys
+    .map((key) => (typeof key === 'string' ? parseCheckinKey(key) : null))
+    .filter((record): record is CheckinRecord => record !== null);
+  const week = typeof source?.week === 'number' && Number.isInteger(source.week) ? source.week : null;
+  return { week, records };
+};
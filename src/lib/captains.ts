@@ -0,0 +1,32 @@
+import { parseTimeslot } from './timeslots';
+
+export const CAPTAIN_AVAILABILITY = ['Mornings', 'Afternoons', 'Evenings', 'Weekends', 'Virtual'] as const;
+
+export type CaptainAvailability = (typeof CAPTAIN_AVAILABILITY)[number];
+
+const WEEKEND = ['Sat', 'Sun'];
+
+// Which availability bucket a pod meeting time falls in: weekday mornings
+// before 12:00, afternoons until 17:00, evenings after that, and any time
+// on Saturday or Sunday counts as the weekend
+export const availabilityForSlot = (slot: string): CaptainAvailability | null => {
+  const parsed = parseTimeslot(slot);
+  if (!parsed) return null;
+  if (WEEKEND.includes(parsed.day)) return 'Weekends';
+  if (parsed.start < 12 * 60) return 'Mornings';
+  if (parsed.start < 17 * 60) return 'Afternoons';
+  return 'Evenings';
+};
+
+export const captainFitsSlot = (availability: readonly string[], slot: string): boolean => {
+  const bucket = availabilityForSlot(slot);
+  return bucket !== null && availability.includes(bucket);
+};
+
+// Virtual pods need a captain who offered Virtual. If they also listed
+// times, the meeting has to fall in one of them.
+export const captainFitsVirtual = (availability: readonly string[], slot: string): boolean => {
+  if (!availability.includes('Virtual')) return false;
+  const times = availability.filter((value) => value !== 'Virtual');
+  return times.length === 0 || captainFitsSlot(times, slot);
+};
@@ -0,0 +1,140 @@
+import { Badge, Pod, Quest, Reward, Space, User } from './types';
+import { InterestTaxonomy, parseTaxonomy } from './interests';
+import { Schema, SchemaError, boolean, list, nullable, number, object, optional, records, string } from './schema';
+
+const userSchema = object<User>({
+  id: string,
+  name: string,
+  email: string,
+  zone: string,
+  interests: list(string),
+  times: list(string),
+  tags: list(string),
+});
+
+const podSchema = object<Pod>({
+  id: string,
+  zone: string,
+  timeslot: string,
+  interests: list(string),
+  tags: list(string),
+  memberIds: list(string),
+  captainId: optional(nullable(string)),
+  spaceId: optional(nullable(string)),
+  meetingLink: optional(nullable(string)),
+  points: number,
+  level: number,
+  vibe: number,
+});
+
+const questSchema = object<Quest>({
+  id: string,
+  week: number,
+  title: string,
+  description: string,
+  badges: list(string),
+  points: object<Quest['points']>({ base: number, coop4: number, coop6: number }),
+});
+
+const badgeSchema = object<Badge>({ id: string, name: string, icon: string, criteria: string });
+
+const rewardSchema = object<Reward>({ id: string, name: string, description: string, cost: number });
+
+const spaceSchema = object<Space>({
+  id: string,
+  name: string,
+  zone: string,
+  ada: boolean,
+  sensoryFriendly: boolean,
+  capacity: number,
+  available: optional(boolean),
+});
+
+// interests.json is a taxonomy object, or the older flat list of names
+const taxonomySchema: Schema<InterestTaxonomy> = (value, field) => {
+  if (Array.isArray(value)) return parseTaxonomy(list(string)(value, field));
+  const checked = object<{ categories: unknown[]; interests: unknown[] }>({
+    categories: records(object<{ id: string; name: string }>({ id: string, name: string })),
+    interests: records(
+      object<{ id: string; name: string; category?: string; synonyms?: string[] }>({
+        id: string,
+        name: string,
+        category: optional(string),
+        synonyms: optional(list(string)),
+      })
+    ),
+  })(value, field);
+  return parseTaxonomy(checked);
+};
+
+export const DATA_SCHEMAS = {
+  'users.json': records(userSchema),
+  'pods.json': records(podSchema),
+  'quests.json': records(questSchema),
+  'badges.json': records(badgeSchema),
+  'rewards.json': records(rewardSchema),
+  'spaces.json': records(spaceSchema),
+  'interests.json': taxonomySchema,
+};
+
+export type DataFile = keyof typeof DATA_SCHEMAS;
+
+export type DataOf<F extends DataFile> = ReturnType<(typeof DATA_SCHEMAS)[F]>;
+
+// A data file that could not be fetched, parsed or did not match its schema.
+// `field` is empty when the whole file is unusable.
+export class DataError extends Error {
+  constructor(
+    readonly file: DataFile,
+    readonly field: string,
+    readonly reason: string,
+  ) {
+    super(`${file}${field ? ` · ${field}` : ''}: ${reason}`);
+  }
+}
+
+export const loadDataFile = async <F extends DataFile>(file: F): Promise<DataOf<F>> => {
+  let response: Response;
+  try {
+    response = await fetch(`/data/${file}`);
+  } catch {
+    throw new DataError(file, '', 'could not be reached');
+  }
+  if (!response.ok) {
+    throw new DataError(file, '', `request failed (HTTP ${response.status})`);
+  }
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch {
+    throw new DataError(file, '', 'is not valid JSON');
+  }
+  try {
+    return DATA_SCHEMAS[file](json, '') as DataOf<F>;
+  } catch (error) {
+    if (error instanceof SchemaError) throw new DataError(file, error.field, error.reason);
+    throw error;
+  }
+};
+
+export type LoadedData<F extends DataFile> = {
+  data: { [K in F]?: DataOf<K> };
+  errors: DataError[];
+};
+
+// Load several files side by side. A file that fails is reported in
+// `errors` and left out of `data`, so the rest of the page can still render.
+export const loadDataFiles = async <F extends DataFile>(files: F[]): Promise<LoadedData<F>> => {
+  const settled = await Promise.allSettled(files.map((file) => loadDataFile(file)));
+  const result: LoadedData<F> = { data: {}, errors: [] };
+  settled.forEach((outcome, index) => {
+    if (outcome.status === 'fulfilled') {
+      result.data[files[index]] = outcome.value as DataOf<F>;
+    } else if (outcome.reason instanceof DataError) {
+      result.errors.push(outcome.reason);
+    } else {
+      result.errors.push(new DataError(files[index], '', String(outcome.reason)));
+    }
+  });
+  return result;
+};
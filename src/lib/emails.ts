@@ -0,0 +1,17 @@
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export const isEmail = (value: string): boolean => EMAIL_PATTERN.test(value);
+
+// Split a free-text list of addresses ("a@asu.edu, b@asu.edu; c@asu.edu")
+// into normalized, de-duplicated entries. Entries that are not emails are
+// returned separately so the caller can decide how loudly to reject them.
+export const parseEmailList = (value: string): { emails: string[]; invalid: string[] } => {
+  const entries = value
+    .split(/[\s,;]+/)
+    .map(normalizeEmail)
+    .filter(Boolean);
+  const emails = Array.from(new Set(entries.filter(isEmail)));
+  return { emails, invalid: entries.filter((entry) => !isEmail(entry)) };
+};
@@ -0,0 +1,65 @@
+// Domain events shared by every open tab and window. publish() runs this
+// tab's subscribers straight away and posts the event to the others over a
+// BroadcastChannel, so a captain's change in one tab shows up in the rest.
+
+export type PodsEvent =
+  // `userId` is the balance's owner, "guest" when nobody has signed in
+  | { type: 'points-updated'; userId: string; points: number }
+  | { type: 'role-updated' }
+  | { type: 'session-updated' }
+  | { type: 'week-updated'; week: number }
+  | { type: 'progress-updated'; podId: string }
+  | { type: 'vibe-updated'; podId: string }
+  | { type: 'spaces-updated' }
+  | { type: 'applications-updated' }
+  // Changes made offline that are still waiting for the server
+  | { type: 'sync-updated'; pending: number };
+
+export type PodsEventType = PodsEvent['type'];
+
+type Listener<T extends PodsEventType> = (event: Extract<PodsEvent, { type: T }>) => void;
+
+const CHANNEL_NAME = 'sundevil-pods';
+
+const listeners = new Map<PodsEventType, Set<(event: PodsEvent) => void>>();
+
+const deliver = (event: PodsEvent) => {
+  listeners.get(event.type)?.forEach((listener) => listener(event));
+};
+
+let channel: BroadcastChannel | null | undefined;
+
+// Opened on first use. Outside a browser (the Node scripts import modules
+// that publish) or without BroadcastChannel, events stay in this tab.
+const getChannel = (): BroadcastChannel | null => {
+  if (channel !== undefined) return channel;
+  channel = typeof window !== 'undefined' && typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+  if (channel) {
+    channel.onmessage = (message: MessageEvent<PodsEvent>) => {
+      if (message.data && typeof message.data.type === 'string') deliver(message.data);
+    };
+  }
+  return channel;
+};
+
+export const publish = (event: PodsEvent) => {
+  deliver(event);
+  try {
+    getChannel()?.postMessage(event);
+  } catch (error) {
+    console.error(`Unable to share ${event.type} with other tabs`, error);
+  }
+};
+
+// Returns the unsubscribe function, so an effect can `return subscribe(...)`
+export const subscribe = <T extends PodsEventType>(types: T | T[], listener: Listener<T>): (() => void) => {
+  getChannel();
+  const wrapped = listener as (event: PodsEvent) => void;
+  const typeList = Array.isArray(types) ? types : [types];
+  typeList.forEach((type) => {
+    const existing = listeners.get(type) ?? new Set();
+    existing.add(wrapped);
+    listeners.set(type, existing);
+  });
+  return () => typeList.forEach((type) => listeners.get(type)?.delete(wrapped));
+};
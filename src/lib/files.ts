@@ -16,3 +16,13 @@ export const isPdfFile = (file: File): boolean => {
   if (mime === 'application/pdf') return true;
   return file.name?.toLowerCase().endsWith('.pdf');
 };
+
+export const downloadJson = (filename: string, value: unknown): void => {
+  const blob = new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,92 @@
+export type InterestCategory = {
+  id: string;
+  name: string;
+};
+
+export type InterestEntry = {
+  id: string;
+  name: string;
+  category: string;
+  synonyms: string[];
+};
+
+export type InterestTaxonomy = {
+  categories: InterestCategory[];
+  interests: InterestEntry[];
+};
+
+export type InterestLookup = Map<string, InterestEntry>;
+
+const normalizeKey = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const slugify = (value: string) => normalizeKey(value).replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+// Accepts the taxonomy object as well as the older flat list of names
+export const parseTaxonomy = (data: unknown): InterestTaxonomy => {
+  if (Array.isArray(data)) {
+    return {
+      categories: [],
+      interests: data.map((raw) => ({ id: slugify(String(raw)), name: String(raw), category: '', synonyms: [] })),
+    };
+  }
+  const record = (data ?? {}) as Partial<InterestTaxonomy>;
+  return {
+    categories: Array.isArray(record.categories)
+      ? record.categories.map((category) => ({ id: String(category.id), name: String(category.name) }))
+      : [],
+    interests: Array.isArray(record.interests)
+      ? record.interests.map((entry) => ({
+          id: String(entry.id),
+          name: String(entry.name),
+          category: String(entry.category ?? ''),
+          synonyms: Array.isArray(entry.synonyms) ? entry.synonyms.map(String) : [],
+        }))
+      : [],
+  };
+};
+
+export const buildInterestLookup = (taxonomy: InterestTaxonomy): InterestLookup => {
+  const lookup: InterestLookup = new Map();
+  taxonomy.interests.forEach((entry) => {
+    [entry.name, ...entry.synonyms].forEach((label) => lookup.set(normalizeKey(label), entry));
+  });
+  return lookup;
+};
+
+// Resolve free text to a taxonomy entry, trying a naive singular as a fallback
+export const resolveInterest = (raw: string, lookup: InterestLookup): InterestEntry | null => {
+  const key = normalizeKey(raw);
+  if (!key) return null;
+  return lookup.get(key) ?? (key.endsWith('s') ? lookup.get(key.slice(0, -1)) : undefined) ?? null;
+};
+
+// Replace recognized interests with their canonical name; unknown entries are
+// kept as written. Duplicates collapse so "studying; study sprints" is one interest.
+export const canonicalizeInterests = (values: string[], lookup: InterestLookup): string[] => {
+  const result: string[] = [];
+  values.forEach((value) => {
+    const resolved = resolveInterest(value, lookup);
+    const label = resolved ? resolved.name : value.trim();
+    if (label && !result.includes(label)) result.push(label);
+  });
+  return result;
+};
+
+// Canonical interest name -> parent category, used for partial overlap
+export const interestCategories = (taxonomy: InterestTaxonomy): Record<string, string> =>
+  taxonomy.interests.reduce((acc, entry) => {
+    if (entry.category) acc[entry.name] = entry.category;
+    return acc;
+  }, {} as Record<string, string>);
+
+// Entries whose name or synonyms start with (or contain) the query
+export const suggestInterests = (query: string, taxonomy: InterestTaxonomy, limit = 6): InterestEntry[] => {
+  const key = normalizeKey(query);
+  if (!key) return taxonomy.interests.slice(0, limit);
+  const labels = (entry: InterestEntry) => [entry.name, ...entry.synonyms].map(normalizeKey);
+  const prefix = taxonomy.interests.filter((entry) => labels(entry).some((label) => label.startsWith(key)));
+  const contains = taxonomy.interests.filter(
+    (entry) => !prefix.includes(entry) && labels(entry).some((label) => label.includes(key))
+  );
+  return [...prefix, ...contains].slice(0, limit);
+};
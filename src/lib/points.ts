@@ -1,38 +1,18 @@
-const isBrowser = () => typeof window !== 'undefined' && typeof localStorage !== 'undefined';
+import { publish } from './events';
+import { storage } from './storage';
 
-const keyFor = (userId: string | null | undefined) => {
-  if (!userId) return 'points';
-  return `points:${userId}`;
-};
+// Whose balance a points-updated event is about; signed-out students share "guest"
+export const pointsOwner = (userId: string | null | undefined) => userId || 'guest';
 
-export const getPoints = (userId: string | null | undefined): number => {
-  if (!isBrowser()) return 0;
-  const stored = localStorage.getItem(keyFor(userId));
-  if (!stored) return 0;
-  const value = parseInt(stored, 10);
-  return Number.isFinite(value) ? value : 0;
-};
+export const getPoints = (userId: string | null | undefined): Promise<number> => storage.points.get(userId ?? null);
 
-export const setPoints = (userId: string | null | undefined, value: number) => {
-  if (!isBrowser()) return;
-  const safeValue = Math.max(Math.round(value), 0);
-  localStorage.setItem(keyFor(userId), safeValue.toString());
-  window.dispatchEvent(new CustomEvent('pods:points-updated', { detail: safeValue }));
+const announce = (userId: string | null | undefined, value: number) => {
+  publish({ type: 'points-updated', userId: pointsOwner(userId), points: value });
+  return value;
 };
 
-export const adjustPoints = (userId: string | null | undefined, delta: number) => {
-  if (!isBrowser()) return 0;
-  const next = Math.max(getPoints(userId) + delta, 0);
-  setPoints(userId, next);
-  return next;
-};
+export const setPoints = async (userId: string | null | undefined, value: number) =>
+  announce(userId, await storage.points.set(userId ?? null, value));
 
-export const transferLegacyPoints = (userId: string | null | undefined) => {
-  if (!isBrowser() || !userId) return;
-  const legacy = localStorage.getItem('points');
-  if (!legacy) return;
-  const value = parseInt(legacy, 10);
-  if (!Number.isFinite(value)) return;
-  localStorage.setItem(keyFor(userId), Math.max(value, 0).toString());
-  localStorage.removeItem('points');
-};
+export const adjustPoints = async (userId: string | null | undefined, delta: number) =>
+  announce(userId, await storage.points.adjust(userId ?? null, delta));
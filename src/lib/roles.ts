@@ -1,38 +1,24 @@
-export type Role = 'student' | 'captain-candidate' | 'captain';
+import { publish } from './events';
+import { storage } from './storage';
 
-const ROLE_KEY = 'role';
-const CURRENT_USER_ID_KEY = 'currentUserId';
+export type Role = 'student' | 'captain-candidate' | 'captain';
 
-const isBrowser = () => typeof window !== 'undefined' && typeof localStorage !== 'undefined';
+const isBrowser = () => typeof window !== 'undefined';
 
-export const getRole = (): Role => {
-  if (!isBrowser()) return 'student';
-  const stored = localStorage.getItem(ROLE_KEY) as Role | null;
-  if (stored === 'captain' || stored === 'captain-candidate' || stored === 'student') {
-    return stored;
-  }
-  return 'student';
-};
+export const getRole = (): Role => (isBrowser() ? storage.session.get().role : 'student');
 
 export const setRole = (role: Role) => {
   if (!isBrowser()) return;
-  localStorage.setItem(ROLE_KEY, role);
-  window.dispatchEvent(new Event('pods:role-updated'));
+  storage.session.update({ role });
+  publish({ type: 'role-updated' });
 };
 
 export const isCaptain = (): boolean => getRole() === 'captain';
 
-export const currentUserId = (): string | null => {
-  if (!isBrowser()) return null;
-  return localStorage.getItem(CURRENT_USER_ID_KEY);
-};
+export const currentUserId = (): string | null => (isBrowser() ? storage.session.get().userId : null);
 
 export const setCurrentUserId = (id: string | null) => {
   if (!isBrowser()) return;
-  if (id) {
-    localStorage.setItem(CURRENT_USER_ID_KEY, id);
-  } else {
-    localStorage.removeItem(CURRENT_USER_ID_KEY);
-  }
-  window.dispatchEvent(new Event('pods:session-updated'));
+  storage.session.update({ userId: id });
+  publish({ type: 'session-updated' });
 };
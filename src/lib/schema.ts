@@ -0,0 +1,79 @@
+// Minimal runtime schemas for JSON we did not write ourselves. A schema
+// returns the value typed, or throws a SchemaError naming the field that
+// does not fit, e.g. "pod-003.memberIds[2]".
+
+export class SchemaError extends Error {
+  constructor(
+    readonly field: string,
+    readonly reason: string,
+  ) {
+    super(field ? `${field}: ${reason}` : reason);
+  }
+}
+
+export type Schema<T> = (value: unknown, field: string) => T;
+
+const join = (field: string, key: string) => (field ? `${field}.${key}` : key);
+
+const describe = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'a list' : typeof value);
+
+export const string: Schema<string> = (value, field) => {
+  if (typeof value !== 'string') throw new SchemaError(field, `expected text, got ${describe(value)}`);
+  return value;
+};
+
+export const number: Schema<number> = (value, field) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new SchemaError(field, `expected a number, got ${describe(value)}`);
+  return value;
+};
+
+export const boolean: Schema<boolean> = (value, field) => {
+  if (typeof value !== 'boolean') throw new SchemaError(field, `expected true or false, got ${describe(value)}`);
+  return value;
+};
+
+export const optional =
+  <T,>(schema: Schema<T>): Schema<T | undefined> =>
+  (value, field) =>
+    value === undefined ? undefined : schema(value, field);
+
+export const nullable =
+  <T,>(schema: Schema<T>): Schema<T | null> =>
+  (value, field) =>
+    value === null ? null : schema(value, field);
+
+export const list =
+  <T,>(schema: Schema<T>): Schema<T[]> =>
+  (value, field) => {
+    if (!Array.isArray(value)) throw new SchemaError(field, `expected a list, got ${describe(value)}`);
+    return value.map((item, index) => schema(item, `${field}[${index}]`));
+  };
+
+// A list of records with an `id`; fields inside are named by that ID
+// ("pod-003.memberIds") rather than by position when it is readable
+export const records =
+  <T,>(schema: Schema<T>): Schema<T[]> =>
+  (value, field) => {
+    if (!Array.isArray(value)) throw new SchemaError(field, `expected a list, got ${describe(value)}`);
+    return value.map((item, index) => {
+      const id = (item as { id?: unknown } | null)?.id;
+      return schema(item, typeof id === 'string' && id ? join(field, id) : `${field}[${index}]`);
+    });
+  };
+
+// Checks the listed keys and keeps only those, so extra fields in a file
+// never leak into typed state
+export const object =
+  <T,>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> =>
+  (value, field) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaError(field, `expected an object, got ${describe(value)}`);
+    }
+    const source = value as Record<string, unknown>;
+    const result = {} as T;
+    (Object.keys(shape) as (keyof T & string)[]).forEach((key) => {
+      const parsed = shape[key](source[key], join(field, key));
+      if (parsed !== undefined) result[key] = parsed;
+    });
+    return result;
+  };
@@ -0,0 +1,232 @@
+import { CURRENT_STATE_VERSION, KeyValueStore, STATE_VERSION_KEY, runMigrations } from './migrations';
+
+// Moves this browser's SunDevil Pods+ data to a file and back. Works on the
+// raw localStorage keys (see local.ts) so a restore lands exactly where the
+// local repositories will look for it.
+
+export const BACKUP_FORMAT = 'sundevil-pods-backup';
+
+const OWNED_KEYS = [
+  'currentUserId',
+  'currentUserName',
+  'currentUserEmail',
+  'role',
+  'signupData',
+  'signupProfile',
+  'currentWeek',
+  'unlockedBadges',
+  'redeemed',
+  'belongingPulse',
+  'captainApplications',
+  'assignedCaptains',
+];
+
+const OWNED_PREFIXES = [
+  'points:',
+  'checkin:',
+  'quest:',
+  'issuedQuest:',
+  'progressSeeded:',
+  'spaceAvail:',
+  'selectedSpace:',
+  'meetingLink:',
+  'vibeRatings:',
+];
+
+const isOwnedKey = (key: string) => OWNED_KEYS.includes(key) || OWNED_PREFIXES.some((prefix) => key.startsWith(prefix));
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  // The state version (see migrations.ts) the entries were written in
+  version: number;
+  exportedAt: string;
+  entries: Record<string, string>;
+  // SHA-256 of everything above. It catches a file that was edited or cut
+  // short; it does not prove which browser made it.
+  signature: string;
+}
+
+export class BackupError extends Error {}
+
+const sortedEntries = (entries: Record<string, string>) =>
+  Object.keys(entries)
+    .sort()
+    .map((key) => [key, entries[key]]);
+
+const sign = async (backup: Omit<Backup, 'signature'>): Promise<string> => {
+  const payload = JSON.stringify([backup.format, backup.version, backup.exportedAt, sortedEntries(backup.entries)]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const ownedEntries = (store: KeyValueStore): Record<string, string> => {
+  const entries: Record<string, string> = {};
+  for (let index = 0; index < store.length; index += 1) {
+    const key = store.key(index);
+    const value = key === null ? null : store.getItem(key);
+    if (key && value !== null && isOwnedKey(key)) entries[key] = value;
+  }
+  return entries;
+};
+
+export const createBackup = async (store: KeyValueStore): Promise<Backup> => {
+  const unsigned = {
+    format: BACKUP_FORMAT as typeof BACKUP_FORMAT,
+    version: CURRENT_STATE_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries: ownedEntries(store),
+  };
+  return { ...unsigned, signature: await sign(unsigned) };
+};
+
+const memoryStore = (entries: Record<string, string>): KeyValueStore => {
+  const values = new Map(Object.entries(entries));
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: (key) => {
+      values.delete(key);
+    },
+    key: (index) => Array.from(values.keys())[index] ?? null,
+    get length() {
+      return values.size;
+    },
+  };
+};
+
+const parseBackup = async (text: string): Promise<Backup> => {
+  let parsed: Partial<Backup>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupError('This file is not JSON.');
+  }
+  if (!parsed || parsed.format !== BACKUP_FORMAT) throw new BackupError('This file is not a SunDevil Pods+ backup.');
+  const { version, exportedAt, entries, signature } = parsed;
+  if (
+    typeof version !== 'number' ||
+    typeof exportedAt !== 'string' ||
+    typeof signature !== 'string' ||
+    !entries ||
+    typeof entries !== 'object' ||
+    Object.values(entries).some((value) => typeof value !== 'string')
+  ) {
+    throw new BackupError('This backup is missing fields; export it again.');
+  }
+  const backup: Backup = { format: BACKUP_FORMAT, version, exportedAt, entries, signature };
+  if ((await sign(backup)) !== signature) {
+    throw new BackupError('This backup was changed after it was exported, so it cannot be restored.');
+  }
+  if (version > CURRENT_STATE_VERSION) {
+    throw new BackupError(
+      `This backup is data version ${version}, but this build only understands up to version ${CURRENT_STATE_VERSION}. Restore it from the latest version of the site.`,
+    );
+  }
+  return backup;
+};
+
+export type Resolution = 'merge' | 'keep' | 'replace';
+
+export interface BackupConflict {
+  key: string;
+  current: string;
+  incoming: string;
+  // null when the two values cannot be combined and one has to win
+  merged: string | null;
+}
+
+export interface ImportPlan {
+  exportedAt: string;
+  // Upgrades applied to an older backup before comparing
+  migrated: string[];
+  added: Record<string, string>;
+  unchanged: string[];
+  conflicts: BackupConflict[];
+}
+
+const parseList = (value: string): unknown[] | null => {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// Everything from `current`, then whatever `incoming` adds, matched by `identity`
+const unionBy = (current: string, incoming: string, identity: (item: unknown) => string): string | null => {
+  const ours = parseList(current);
+  const theirs = parseList(incoming);
+  if (!ours || !theirs) return null;
+  const seen = new Set(ours.map(identity));
+  return JSON.stringify([...ours, ...theirs.filter((item) => !seen.has(identity(item)))]);
+};
+
+const mergeValues = (key: string, current: string, incoming: string): string | null => {
+  if (key.startsWith('points:')) {
+    // The larger balance: adding them would count twice whatever both copies share
+    const ours = parseInt(current, 10);
+    const theirs = parseInt(incoming, 10);
+    if (!Number.isFinite(ours) || !Number.isFinite(theirs)) return null;
+    return Math.max(ours, theirs).toString();
+  }
+  switch (key) {
+    case 'unlockedBadges':
+    case 'redeemed':
+    case 'assignedCaptains':
+      return unionBy(current, incoming, String);
+    case 'belongingPulse':
+      return unionBy(current, incoming, (entry) => JSON.stringify(entry));
+    case 'captainApplications':
+      return unionBy(current, incoming, (entry) => String((entry as { id?: unknown })?.id));
+    default:
+      return null;
+  }
+};
+
+// Compare a backup file with what this browser already holds. Nothing is
+// written until applyImport.
+export const planImport = async (text: string, store: KeyValueStore): Promise<ImportPlan> => {
+  const backup = await parseBackup(text);
+  const upgraded = memoryStore(backup.entries);
+  upgraded.setItem(STATE_VERSION_KEY, backup.version.toString());
+  const { changes } = runMigrations(upgraded, () => undefined);
+  const incoming = ownedEntries(upgraded);
+
+  const plan: ImportPlan = { exportedAt: backup.exportedAt, migrated: changes, added: {}, unchanged: [], conflicts: [] };
+  Object.keys(incoming)
+    .sort()
+    .forEach((key) => {
+      const current = store.getItem(key);
+      if (current === null) {
+        plan.added[key] = incoming[key];
+      } else if (current === incoming[key]) {
+        plan.unchanged.push(key);
+      } else {
+        plan.conflicts.push({ key, current, incoming: incoming[key], merged: mergeValues(key, current, incoming[key]) });
+      }
+    });
+  return plan;
+};
+
+export const defaultResolution = (conflict: BackupConflict): Resolution => (conflict.merged === null ? 'keep' : 'merge');
+
+// Write the plan, resolving each conflict as chosen (defaultResolution when
+// not). Keys the backup does not mention are left as they are.
+export const applyImport = (plan: ImportPlan, choices: Record<string, Resolution>, store: KeyValueStore): number => {
+  let written = 0;
+  Object.entries(plan.added).forEach(([key, value]) => {
+    store.setItem(key, value);
+    written += 1;
+  });
+  plan.conflicts.forEach((conflict) => {
+    const choice = choices[conflict.key] ?? defaultResolution(conflict);
+    const value = choice === 'replace' ? conflict.incoming : choice === 'merge' ? conflict.merged : null;
+    if (value === null || value === conflict.current) return;
+    store.setItem(conflict.key, value);
+    written += 1;
+  });
+  return written;
+};
@@ -0,0 +1,90 @@
+import { createLocalRepositories } from './local';
+import { CaptainApplication, ProgressMark, PulseEntry, Repositories } from './types';
+
+// Server mode: progress, points, applications, spaces and pulses go to a
+// REST API so every device sees the same pods. The session stays in this
+// browser, as it does in demo mode.
+
+// A request the server refused or never answered; `status` is 0 when the
+// server could not be reached
+export class StorageError extends Error {
+  constructor(
+    readonly method: string,
+    readonly path: string,
+    readonly status: number,
+    reason: string,
+  ) {
+    super(`${method} ${path}: ${reason}`);
+  }
+}
+
+// Students who have not signed in share one guest record
+const userPath = (userId: string | null) => `/users/${encodeURIComponent(userId || 'guest')}`;
+const podPath = (podId: string) => `/pods/${encodeURIComponent(podId)}`;
+const markPath = ({ kind, podId, week, userId }: ProgressMark) =>
+  `/progress/${kind}/${encodeURIComponent(podId)}/${week}/${encodeURIComponent(userId)}`;
+
+export const createHttpRepositories = (baseUrl: string): Repositories => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async <T,>(method: string, path: string, body?: unknown): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetch(`${root}${path}`, {
+        method,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch {
+      throw new StorageError(method, path, 0, 'server could not be reached');
+    }
+    if (!response.ok) {
+      throw new StorageError(method, path, response.status, `request failed (HTTP ${response.status})`);
+    }
+    if (response.status === 204) return undefined as T;
+    return (await response.json()) as T;
+  };
+
+  const get = <T,>(path: string) => request<T>('GET', path);
+  const put = <T,>(path: string, body?: unknown) => request<T>('PUT', path, body ?? {});
+
+  return {
+    session: createLocalRepositories().session,
+    progress: {
+      list: (podId) => get<ProgressMark[]>(podId ? `/progress?podId=${encodeURIComponent(podId)}` : '/progress'),
+      set: (mark, done) => request<void>(done ? 'PUT' : 'DELETE', markPath(mark)),
+      questIssuedAt: async (podId, week) => (await get<{ issuedAt: string | null }>(`${podPath(podId)}/quests/${week}`)).issuedAt,
+      issueQuest: (podId, week) => put<void>(`${podPath(podId)}/quests/${week}`),
+      badges: (userId) => get<string[]>(`${userPath(userId)}/badges`),
+      unlockBadge: (userId, badgeId) => put<string[]>(`${userPath(userId)}/badges/${encodeURIComponent(badgeId)}`),
+      redeemed: (userId) => get<string[]>(`${userPath(userId)}/redeemed`),
+      setRedeemed: (userId, rewardIds) => put<void>(`${userPath(userId)}/redeemed`, rewardIds),
+    },
+    points: {
+      get: async (userId) => (await get<{ points: number }>(`${userPath(userId)}/points`)).points,
+      set: async (userId, value) => (await put<{ points: number }>(`${userPath(userId)}/points`, { points: value })).points,
+      adjust: async (userId, delta) =>
+        (await request<{ points: number }>('POST', `${userPath(userId)}/points/adjust`, { delta })).points,
+    },
+    applications: {
+      list: () => get<CaptainApplication[]>('/applications'),
+      save: (applications) => put<void>('/applications', applications),
+      assignedCaptains: () => get<string[]>('/captains'),
+      assignCaptain: (email) => put<void>(`/captains/${encodeURIComponent(email)}`),
+    },
+    spaces: {
+      availability: () => get<Record<string, boolean>>('/spaces/availability'),
+      setAvailability: (spaceId, available) => put<void>(`/spaces/${encodeURIComponent(spaceId)}/availability`, { available }),
+      selected: async (podId) => (await get<{ spaceId: string | null }>(`${podPath(podId)}/space`)).spaceId,
+      select: (podId, spaceId) => put<void>(`${podPath(podId)}/space`, { spaceId }),
+      meetingLink: async (podId) => (await get<{ link: string | null }>(`${podPath(podId)}/meeting-link`)).link,
+      setMeetingLink: (podId, link) => put<void>(`${podPath(podId)}/meeting-link`, { link }),
+    },
+    pulses: {
+      history: (userId) => get<PulseEntry[]>(`${userPath(userId)}/pulses`),
+      add: (userId, entry) => request<PulseEntry[]>('POST', `${userPath(userId)}/pulses`, entry),
+      vibe: (podId) => get<number[]>(`${podPath(podId)}/vibe`),
+      setVibe: (podId, ratings) => put<void>(`${podPath(podId)}/vibe`, ratings),
+    },
+  };
+};
@@ -0,0 +1,40 @@
+import { createLocalRepositories } from './local';
+import { Repositories } from './types';
+
+export * from './types';
+export { createLocalRepositories } from './local';
+export { StorageError, createHttpRepositories } from './http';
+export { pendingChanges, withOutbox } from './outbox';
+export { CURRENT_STATE_VERSION, StateVersionError, runMigrations } from './migrations';
+export { BackupError, applyImport, createBackup, defaultResolution, planImport } from './backup';
+export type { Backup, BackupConflict, ImportPlan, Resolution } from './backup';
+
+let active: Repositories = createLocalRepositories();
+
+// Demo mode until main.tsx picks a backend from the build configuration
+export const configureStorage = (repositories: Repositories) => {
+  active = repositories;
+};
+
+// Reads through to whichever backend is configured, so modules can hold on
+// to `storage` without caring when configureStorage ran
+export const storage: Repositories = {
+  get session() {
+    return active.session;
+  },
+  get progress() {
+    return active.progress;
+  },
+  get points() {
+    return active.points;
+  },
+  get applications() {
+    return active.applications;
+  },
+  get spaces() {
+    return active.spaces;
+  },
+  get pulses() {
+    return active.pulses;
+  },
+};
@@ -0,0 +1,214 @@
+import type { Role } from '../roles';
+import {
+  CaptainApplication,
+  ProgressMark,
+  PulseEntry,
+  Repositories,
+  Session,
+  Signup,
+  SignupProfile,
+} from './types';
+
+// Demo mode: everything lives in this browser's localStorage. The key
+// layout is versioned; migrations.ts upgrades what older builds wrote.
+
+const isBrowser = () => typeof window !== 'undefined' && typeof localStorage !== 'undefined';
+
+const read = (key: string): string | null => (isBrowser() ? localStorage.getItem(key) : null);
+
+const write = (key: string, value: string | null) => {
+  if (!isBrowser()) return;
+  if (value === null) {
+    localStorage.removeItem(key);
+  } else {
+    localStorage.setItem(key, value);
+  }
+};
+
+const readJson = <T,>(key: string, fallback: T): T => {
+  const stored = read(key);
+  if (!stored) return fallback;
+  try {
+    return JSON.parse(stored) as T;
+  } catch (error) {
+    console.error(`Unable to parse ${key}`, error);
+    return fallback;
+  }
+};
+
+const keysStartingWith = (prefix: string): string[] => {
+  if (!isBrowser()) return [];
+  const keys: string[] = [];
+  for (let index = 0; index < localStorage.length; index += 1) {
+    const key = localStorage.key(index);
+    if (key && key.startsWith(prefix)) keys.push(key);
+  }
+  return keys;
+};
+
+const stringList = (value: unknown): string[] => (Array.isArray(value) ? value.map(String) : []);
+
+const ROLES: Role[] = ['student', 'captain-candidate', 'captain'];
+
+const SESSION_KEYS: Record<keyof Session, string> = {
+  userId: 'currentUserId',
+  name: 'currentUserName',
+  email: 'currentUserEmail',
+  role: 'role',
+};
+
+const session = {
+  get: (): Session => {
+    const role = read(SESSION_KEYS.role) as Role | null;
+    return {
+      userId: read(SESSION_KEYS.userId),
+      name: read(SESSION_KEYS.name),
+      email: read(SESSION_KEYS.email),
+      role: role && ROLES.includes(role) ? role : 'student',
+    };
+  },
+  update: (patch: Partial<Session>) => {
+    (Object.keys(patch) as (keyof Session)[]).forEach((field) => write(SESSION_KEYS[field], patch[field] || null));
+  },
+  signup: (): Signup | null => {
+    const stored = readJson<Partial<Signup> | null>('signupData', null);
+    if (!stored || typeof stored.zone !== 'string' || !stored.zone) return null;
+    return {
+      zone: stored.zone,
+      times: stringList(stored.times),
+      interests: stringList(stored.interests),
+      tags: stringList(stored.tags),
+      buddies: stringList(stored.buddies),
+      avoid: stringList(stored.avoid),
+    };
+  },
+  profile: (): SignupProfile | null => {
+    const stored = readJson<Partial<SignupProfile> | null>('signupProfile', null);
+    if (!stored) return null;
+    return { name: String(stored.name ?? ''), email: String(stored.email ?? '') };
+  },
+  saveSignup: (signup: Signup, profile: SignupProfile) => {
+    write('signupData', JSON.stringify(signup));
+    write('signupProfile', JSON.stringify(profile));
+  },
+  week: (): number | null => {
+    const value = parseInt(read('currentWeek') ?? '', 10);
+    return Number.isNaN(value) ? null : value;
+  },
+  setWeek: (week: number) => write('currentWeek', week.toString()),
+};
+
+// checkin:<podId>:<week>:<userId> and quest:<podId>:<week>:<userId>, set to
+// "1" while done (see src/lib/attendance.ts)
+const progressKey = ({ kind, podId, week, userId }: ProgressMark) => `${kind}:${podId}:${week}:${userId}`;
+
+const parseProgressKey = (key: string): ProgressMark | null => {
+  const [kind, podId, week, userId, ...rest] = key.split(':');
+  const parsedWeek = Number(week);
+  if ((kind !== 'checkin' && kind !== 'quest') || !podId || !userId || rest.length > 0 || !Number.isInteger(parsedWeek)) {
+    return null;
+  }
+  return { kind, podId, week: parsedWeek, userId };
+};
+
+// Badges, redemptions and pulses predate user IDs: a browser holds one student
+const progress = {
+  list: async (podId?: string) =>
+    [...keysStartingWith('checkin:'), ...keysStartingWith('quest:')]
+      .filter((key) => Boolean(read(key)))
+      .map(parseProgressKey)
+      .filter((mark): mark is ProgressMark => mark !== null && (!podId || mark.podId === podId)),
+  set: async (mark: ProgressMark, done: boolean) => write(progressKey(mark), done ? '1' : null),
+  questIssuedAt: async (podId: string, week: number) => read(`issuedQuest:${podId}:${week}`),
+  issueQuest: async (podId: string, week: number) => write(`issuedQuest:${podId}:${week}`, new Date().toISOString()),
+  badges: async () => stringList(readJson<unknown>('unlockedBadges', [])),
+  unlockBadge: async (_userId: string | null, badgeId: string) => {
+    const current = stringList(readJson<unknown>('unlockedBadges', []));
+    if (current.includes(badgeId)) return current;
+    const updated = [...current, badgeId];
+    write('unlockedBadges', JSON.stringify(updated));
+    return updated;
+  },
+  redeemed: async () => stringList(readJson<unknown>('redeemed', [])),
+  setRedeemed: async (_userId: string | null, rewardIds: string[]) => write('redeemed', JSON.stringify(rewardIds)),
+};
+
+// Students who have not signed in share the guest balance
+const pointsKey = (userId: string | null) => `points:${userId || 'guest'}`;
+
+const readPoints = (userId: string | null) => {
+  const value = parseInt(read(pointsKey(userId)) ?? '', 10);
+  return Number.isFinite(value) ? value : 0;
+};
+
+const writePoints = (userId: string | null, value: number) => {
+  const safeValue = Math.max(Math.round(value), 0);
+  write(pointsKey(userId), safeValue.toString());
+  return safeValue;
+};
+
+const points = {
+  get: async (userId: string | null) => readPoints(userId),
+  set: async (userId: string | null, value: number) => writePoints(userId, value),
+  adjust: async (userId: string | null, delta: number) => writePoints(userId, readPoints(userId) + delta),
+};
+
+const applications = {
+  list: async () => {
+    const stored = readJson<unknown>('captainApplications', []);
+    return Array.isArray(stored) ? (stored as CaptainApplication[]) : [];
+  },
+  save: async (entries: CaptainApplication[]) => write('captainApplications', JSON.stringify(entries)),
+  assignedCaptains: async () => stringList(readJson<unknown>('assignedCaptains', [])),
+  assignCaptain: async (email: string) => {
+    const existing = stringList(readJson<unknown>('assignedCaptains', []));
+    if (!existing.includes(email)) write('assignedCaptains', JSON.stringify([...existing, email]));
+  },
+};
+
+const spaces = {
+  availability: async () => {
+    const overrides: Record<string, boolean> = {};
+    keysStartingWith('spaceAvail:').forEach((key) => {
+      overrides[key.slice('spaceAvail:'.length)] = read(key) === '1';
+    });
+    return overrides;
+  },
+  setAvailability: async (spaceId: string, available: boolean) => write(`spaceAvail:${spaceId}`, available ? '1' : '0'),
+  selected: async (podId: string) => read(`selectedSpace:${podId}`),
+  select: async (podId: string, spaceId: string) => write(`selectedSpace:${podId}`, spaceId),
+  meetingLink: async (podId: string) => read(`meetingLink:${podId}`),
+  setMeetingLink: async (podId: string, link: string | null) => write(`meetingLink:${podId}`, link),
+};
+
+const readPulses = (): PulseEntry[] => {
+  const stored = readJson<unknown>('belongingPulse', []);
+  return Array.isArray(stored) ? (stored as PulseEntry[]) : [];
+};
+
+const pulses = {
+  history: async () => readPulses(),
+  add: async (_userId: string | null, entry: PulseEntry) => {
+    const history = [...readPulses(), entry];
+    write('belongingPulse', JSON.stringify(history));
+    return history;
+  },
+  vibe: async (podId: string) => {
+    const values = readJson<unknown>(`vibeRatings:${podId}`, []);
+    if (!Array.isArray(values)) return [];
+    return values.map((value) => {
+      const asNumber = Number(value);
+      return Number.isFinite(asNumber) ? asNumber : 0;
+    });
+  },
+  setVibe: async (podId: string, ratings: number[]) => write(`vibeRatings:${podId}`, JSON.stringify(ratings)),
+};
+
+export const createLocalRepositories = (): Repositories => ({
+  session,
+  progress,
+  points,
+  applications,
+  spaces,
+  pulses,
+});
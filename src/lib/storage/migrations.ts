@@ -0,0 +1,123 @@
+// Upgrades what older builds left in localStorage, one version at a time.
+// main.tsx runs this before the first render; each step records what it
+// changed so the console shows exactly what happened to a student's data.
+
+export const STATE_VERSION_KEY = 'podsStateVersion';
+
+export type KeyValueStore = Pick<Storage, 'getItem' | 'setItem' | 'removeItem' | 'key' | 'length'>;
+
+interface Migration {
+  to: number;
+  description: string;
+  // Returns one line per change, empty when there was nothing to upgrade
+  run: (store: KeyValueStore) => string[];
+}
+
+const keysOf = (store: KeyValueStore): string[] => {
+  const keys: string[] = [];
+  for (let index = 0; index < store.length; index += 1) {
+    const key = store.key(index);
+    if (key) keys.push(key);
+  }
+  return keys;
+};
+
+const MIGRATIONS: Migration[] = [
+  {
+    to: 1,
+    description: 'points are kept per user',
+    // The first builds kept one global `points` balance. It belongs to the
+    // signed-in student, or to the guest record when nobody has signed in.
+    run: (store) => {
+      const legacy = store.getItem('points');
+      if (legacy === null) return [];
+      const owner = store.getItem('currentUserId') || 'guest';
+      const value = parseInt(legacy, 10);
+      store.removeItem('points');
+      if (!Number.isFinite(value)) return [`dropped unreadable points "${legacy}"`];
+      const target = `points:${owner}`;
+      const existing = parseInt(store.getItem(target) ?? '', 10);
+      const merged = Math.max(value, 0) + (Number.isFinite(existing) ? existing : 0);
+      store.setItem(target, merged.toString());
+      return [`moved ${value} point(s) from points to ${target}`];
+    },
+  },
+  {
+    to: 2,
+    description: 'vibe ratings are kept per pod',
+    // `vibeRatings` used to be one object of every pod's ratings; a per-pod
+    // key written since then wins over the old copy
+    run: (store) => {
+      const aggregate = store.getItem('vibeRatings');
+      if (aggregate === null) return [];
+      store.removeItem('vibeRatings');
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(aggregate);
+      } catch {
+        return ['dropped unreadable vibeRatings'];
+      }
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return ['dropped vibeRatings that was not a pod map'];
+      return Object.entries(parsed as Record<string, unknown>).map(([podId, ratings]) => {
+        const target = `vibeRatings:${podId}`;
+        if (!Array.isArray(ratings)) return `dropped unreadable ratings for ${podId}`;
+        if (store.getItem(target) !== null) return `kept existing ${target}, dropped the older copy`;
+        store.setItem(target, JSON.stringify(ratings));
+        return `moved ${podId} ratings to ${target}`;
+      });
+    },
+  },
+];
+
+export const CURRENT_STATE_VERSION = MIGRATIONS[MIGRATIONS.length - 1].to;
+
+// The data was written by a newer build than this one. Running on it could
+// silently undo that build's changes, so the app stops instead.
+export class StateVersionError extends Error {
+  constructor(
+    readonly found: number,
+    readonly supported: number,
+  ) {
+    super(`Saved data is version ${found}, but this build only understands up to version ${supported}`);
+  }
+}
+
+export const readStateVersion = (store: KeyValueStore): number => {
+  const stored = store.getItem(STATE_VERSION_KEY);
+  if (stored === null) {
+    // Never stamped: either a first visit or a build from before versioning
+    return 0;
+  }
+  const version = parseInt(stored, 10);
+  return Number.isInteger(version) && version >= 0 ? version : 0;
+};
+
+export type MigrationReport = {
+  from: number;
+  to: number;
+  changes: string[];
+};
+
+// Bring `store` up to CURRENT_STATE_VERSION, stamping the version after each
+// step so an interrupted run resumes where it stopped
+export const runMigrations = (
+  store: KeyValueStore,
+  log: (message: string) => void = (message) => console.info(message),
+): MigrationReport => {
+  const from = readStateVersion(store);
+  if (from > CURRENT_STATE_VERSION) throw new StateVersionError(from, CURRENT_STATE_VERSION);
+  const isFirstVisit = from === 0 && keysOf(store).length === 0;
+  const changes: string[] = [];
+  MIGRATIONS.filter((migration) => migration.to > from).forEach((migration) => {
+    const applied = migration.run(store);
+    store.setItem(STATE_VERSION_KEY, migration.to.toString());
+    applied.forEach((change) => {
+      changes.push(change);
+      log(`[storage] v${migration.to} (${migration.description}): ${change}`);
+    });
+  });
+  if (from < CURRENT_STATE_VERSION && !isFirstVisit) {
+    log(`[storage] upgraded saved data from version ${from} to ${CURRENT_STATE_VERSION}`);
+  }
+  return { from, to: CURRENT_STATE_VERSION, changes };
+};
@@ -0,0 +1,239 @@
+import { publish } from '../events';
+import { StorageError } from './http';
+import { ProgressMark, PulseEntry, Repositories } from './types';
+
+// Server mode without signal: check-ins, quest completions (with their points
+// and badge) and belonging pulses that cannot reach the server wait in this
+// browser's outbox and are replayed in order once it answers again. Reads
+// include whatever is still waiting, so the pages show the student's own
+// changes straight away.
+
+export const OUTBOX_KEY = 'pendingSync';
+
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+type OutboxChange =
+  | { op: 'progress'; mark: ProgressMark; done: boolean }
+  | { op: 'points'; userId: string | null; delta: number }
+  | { op: 'badge'; userId: string | null; badgeId: string }
+  | { op: 'pulse'; userId: string | null; entry: PulseEntry };
+
+export type OutboxEntry = OutboxChange & { id: string; queuedAt: string };
+
+const isBrowser = () => typeof window !== 'undefined' && typeof localStorage !== 'undefined';
+
+const readOutbox = (): OutboxEntry[] => {
+  if (!isBrowser()) return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(OUTBOX_KEY) ?? '[]');
+    return Array.isArray(stored) ? (stored as OutboxEntry[]) : [];
+  } catch (error) {
+    console.error(`Unable to parse ${OUTBOX_KEY}`, error);
+    return [];
+  }
+};
+
+const writeOutbox = (entries: OutboxEntry[]) => {
+  if (!isBrowser()) return;
+  if (entries.length === 0) {
+    localStorage.removeItem(OUTBOX_KEY);
+  } else {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  }
+  publish({ type: 'sync-updated', pending: entries.length });
+};
+
+export const pendingChanges = (): number => readOutbox().length;
+
+// Unreachable or failing servers are worth retrying; a 4xx never will succeed
+const isRetryable = (error: unknown) => error instanceof StorageError && (error.status === 0 || error.status >= 500);
+
+const owner = (userId: string | null) => userId || 'guest';
+
+const sameMark = (a: ProgressMark, b: ProgressMark) =>
+  a.kind === b.kind && a.podId === b.podId && a.week === b.week && a.userId === b.userId;
+
+export const withOutbox = (remote: Repositories): Repositories => {
+  // What the server last said in this tab, to answer from while it cannot
+  const balances = new Map<string, number>();
+  const badges = new Map<string, string[]>();
+  const pulses = new Map<string, PulseEntry[]>();
+  const marks = new Map<string, ProgressMark[]>();
+
+  const queued = <K extends OutboxChange['op']>(op: K) =>
+    readOutbox().filter((entry): entry is Extract<OutboxEntry, { op: K }> => entry.op === op);
+
+  const withQueuedMarks = (list: ProgressMark[], podId?: string) =>
+    queued('progress')
+      .filter(({ mark }) => !podId || mark.podId === podId)
+      .reduce(
+        (current, { mark, done }) => [...current.filter((entry) => !sameMark(entry, mark)), ...(done ? [mark] : [])],
+        list,
+      );
+
+  // `sentId` is a change the server has already counted in `balance`
+  const withQueuedPoints = (userId: string | null, balance: number, sentId?: string) =>
+    Math.max(
+      queued('points')
+        .filter((entry) => owner(entry.userId) === owner(userId) && entry.id !== sentId)
+        .reduce((sum, entry) => sum + entry.delta, balance),
+      0,
+    );
+
+  const withQueuedBadges = (userId: string | null, list: string[]) =>
+    queued('badge')
+      .filter((entry) => owner(entry.userId) === owner(userId))
+      .reduce((current, entry) => (current.includes(entry.badgeId) ? current : [...current, entry.badgeId]), list);
+
+  const withQueuedPulses = (userId: string | null, history: PulseEntry[]) => [
+    ...history,
+    ...queued('pulse')
+      .filter((entry) => owner(entry.userId) === owner(userId))
+      .map((entry) => entry.entry),
+  ];
+
+  // Fall back to the last answer (or `fallback`) when the server cannot be reached
+  const cachedRead = async <T,>(cache: Map<string, T>, key: string, load: () => Promise<T>, fallback?: T): Promise<T> => {
+    try {
+      const value = await load();
+      cache.set(key, value);
+      return value;
+    } catch (error) {
+      const cached = cache.get(key) ?? fallback;
+      if (isRetryable(error) && cached !== undefined) return cached;
+      throw error;
+    }
+  };
+
+  const replay = async (entry: OutboxEntry) => {
+    switch (entry.op) {
+      case 'progress':
+        await remote.progress.set(entry.mark, entry.done);
+        publish({ type: 'progress-updated', podId: entry.mark.podId });
+        break;
+      case 'points': {
+        const points = await remote.points.adjust(entry.userId, entry.delta);
+        balances.set(owner(entry.userId), points);
+        // The balance the server settled on may differ from the one shown offline
+        publish({ type: 'points-updated', userId: owner(entry.userId), points: withQueuedPoints(entry.userId, points, entry.id) });
+        break;
+      }
+      case 'badge':
+        badges.set(owner(entry.userId), await remote.progress.unlockBadge(entry.userId, entry.badgeId));
+        break;
+      case 'pulse':
+        pulses.set(owner(entry.userId), await remote.pulses.add(entry.userId, entry.entry));
+        break;
+    }
+  };
+
+  const drain = async () => {
+    for (let next = readOutbox()[0]; next; next = readOutbox()[0]) {
+      try {
+        await replay(next);
+      } catch (error) {
+        if (isRetryable(error)) return;
+        console.error('The server refused a change made offline; dropping it', next, error);
+      }
+      const sent = next.id;
+      writeOutbox(readOutbox().filter((entry) => entry.id !== sent));
+    }
+  };
+
+  let draining: Promise<void> | null = null;
+  // One tab at a time, or two tabs would send the same change twice
+  const flush = () => {
+    if (!draining) {
+      const run = () => drain().catch((error) => console.error('Unable to sync offline changes', error));
+      const locked: Promise<unknown> = navigator.locks ? navigator.locks.request(OUTBOX_KEY, run) : run();
+      draining = locked
+        .then(() => undefined)
+        .finally(() => {
+          draining = null;
+        });
+    }
+    return draining;
+  };
+
+  // Changes wait behind anything already queued so the server sees them in order
+  const sendOrQueue = async <T,>(change: OutboxChange, send: () => Promise<T>, whileQueued: () => T): Promise<T> => {
+    if (readOutbox().length === 0) {
+      try {
+        return await send();
+      } catch (error) {
+        if (!isRetryable(error)) throw error;
+      }
+    }
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    writeOutbox([...readOutbox(), { ...change, id, queuedAt: new Date().toISOString() }]);
+    flush();
+    return whileQueued();
+  };
+
+  if (isBrowser()) {
+    window.addEventListener('online', () => flush());
+    window.setInterval(() => {
+      if (pendingChanges() > 0) flush();
+    }, RETRY_INTERVAL_MS);
+    flush();
+  }
+
+  return {
+    ...remote,
+    progress: {
+      ...remote.progress,
+      // Even after reloading offline, a student's queued check-in still shows
+      // as done, so it cannot be made (and earn points) twice
+      list: async (podId) =>
+        withQueuedMarks(await cachedRead(marks, podId ?? '', () => remote.progress.list(podId), []), podId),
+      set: (mark, done) =>
+        sendOrQueue(
+          { op: 'progress', mark, done },
+          () => remote.progress.set(mark, done),
+          () => undefined,
+        ),
+      badges: async (userId) =>
+        withQueuedBadges(userId, await cachedRead(badges, owner(userId), () => remote.progress.badges(userId))),
+      unlockBadge: (userId, badgeId) =>
+        sendOrQueue(
+          { op: 'badge', userId, badgeId },
+          async () => {
+            const unlocked = await remote.progress.unlockBadge(userId, badgeId);
+            badges.set(owner(userId), unlocked);
+            return unlocked;
+          },
+          () => withQueuedBadges(userId, badges.get(owner(userId)) ?? []),
+        ),
+    },
+    points: {
+      ...remote.points,
+      get: async (userId) =>
+        withQueuedPoints(userId, await cachedRead(balances, owner(userId), () => remote.points.get(userId))),
+      adjust: (userId, delta) =>
+        sendOrQueue(
+          { op: 'points', userId, delta },
+          async () => {
+            const points = await remote.points.adjust(userId, delta);
+            balances.set(owner(userId), points);
+            return points;
+          },
+          () => withQueuedPoints(userId, balances.get(owner(userId)) ?? 0),
+        ),
+    },
+    pulses: {
+      ...remote.pulses,
+      history: async (userId) =>
+        withQueuedPulses(userId, await cachedRead(pulses, owner(userId), () => remote.pulses.history(userId))),
+      add: (userId, entry) =>
+        sendOrQueue(
+          { op: 'pulse', userId, entry },
+          async () => {
+            const history = await remote.pulses.add(userId, entry);
+            pulses.set(owner(userId), history);
+            return history;
+          },
+          () => withQueuedPulses(userId, pulses.get(owner(userId)) ?? []),
+        ),
+    },
+  };
+};
@@ -0,0 +1,126 @@
+import type { Role } from '../roles';
+
+// Everything the app remembers between visits, grouped into repositories.
+// Pages talk to these instead of to localStorage, so the same screens run
+// on this browser alone (demo mode) or against a server (see index.ts).
+
+export type Session = {
+  userId: string | null;
+  name: string | null;
+  email: string | null;
+  role: Role;
+};
+
+export type Signup = {
+  zone: string;
+  times: string[];
+  interests: string[];
+  tags: string[];
+  // "Match me with" emails, a preference the matcher tries to honour
+  buddies: string[];
+  // "Please don't match me with" emails. Private: only the matcher reads
+  // it, and it is never shown back in a roster or dashboard.
+  avoid: string[];
+};
+
+export type SignupProfile = {
+  name: string;
+  email: string;
+};
+
+// The sign-in on this device. It stays in the browser with every backend,
+// so reads are synchronous.
+export interface SessionRepository {
+  get(): Session;
+  update(patch: Partial<Session>): void;
+  signup(): Signup | null;
+  profile(): SignupProfile | null;
+  saveSignup(signup: Signup, profile: SignupProfile): void;
+  // The week the demo is showing; null until someone picks one
+  week(): number | null;
+  setWeek(week: number): void;
+}
+
+export type ProgressKind = 'checkin' | 'quest';
+
+// One member's check-in or quest completion for one week
+export type ProgressMark = {
+  kind: ProgressKind;
+  podId: string;
+  week: number;
+  userId: string;
+};
+
+export interface ProgressRepository {
+  // Every mark, or one pod's
+  list(podId?: string): Promise<ProgressMark[]>;
+  set(mark: ProgressMark, done: boolean): Promise<void>;
+  // When a captain sent the week's quest to the pod, if they have
+  questIssuedAt(podId: string, week: number): Promise<string | null>;
+  issueQuest(podId: string, week: number): Promise<void>;
+  badges(userId: string | null): Promise<string[]>;
+  unlockBadge(userId: string | null, badgeId: string): Promise<string[]>;
+  redeemed(userId: string | null): Promise<string[]>;
+  setRedeemed(userId: string | null, rewardIds: string[]): Promise<void>;
+}
+
+export interface PointsRepository {
+  get(userId: string | null): Promise<number>;
+  // Both return the stored balance, which never drops below 0
+  set(userId: string | null, value: number): Promise<number>;
+  adjust(userId: string | null, delta: number): Promise<number>;
+}
+
+export type CaptainApplicationStatus = 'pending' | 'approved' | 'rejected';
+
+export type CaptainApplication = {
+  id: string;
+  name: string;
+  email: string;
+  zones: string[];
+  availability: string[];
+  about: string;
+  resumeName: string;
+  resumeUrl: string;
+  createdAt: string;
+  status: CaptainApplicationStatus;
+};
+
+export interface ApplicationRepository {
+  list(): Promise<CaptainApplication[]>;
+  save(applications: CaptainApplication[]): Promise<void>;
+  assignedCaptains(): Promise<string[]>;
+  assignCaptain(email: string): Promise<void>;
+}
+
+export interface SpaceRepository {
+  // Captain overrides of spaces.json `available`, by space ID
+  availability(): Promise<Record<string, boolean>>;
+  setAvailability(spaceId: string, available: boolean): Promise<void>;
+  selected(podId: string): Promise<string | null>;
+  select(podId: string, spaceId: string): Promise<void>;
+  meetingLink(podId: string): Promise<string | null>;
+  setMeetingLink(podId: string, link: string | null): Promise<void>;
+}
+
+export type PulseEntry = {
+  date: string;
+  scores: number[];
+};
+
+export interface PulseRepository {
+  history(userId: string | null): Promise<PulseEntry[]>;
+  add(userId: string | null, entry: PulseEntry): Promise<PulseEntry[]>;
+  // Average vibe per week, W1 first; 0 for weeks without a rating
+  vibe(podId: string): Promise<number[]>;
+  setVibe(podId: string, ratings: number[]): Promise<void>;
+}
+
+export interface Repositories {
+  session: SessionRepository;
+  progress: ProgressRepository;
+  points: PointsRepository;
+  applications: ApplicationRepository;
+  spaces: SpaceRepository;
+  pulses: PulseRepository;
+}
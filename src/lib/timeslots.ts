@@ -0,0 +1,137 @@
+export const TIMESLOTS = [
+  'Mon 10:00',
+  'Mon 14:00',
+  'Tue 11:30',
+  'Tue 14:00',
+  'Tue 15:00',
+  'Wed 12:30',
+  'Wed 16:00',
+  'Thu 17:00',
+  'Fri 15:00',
+  'Sat 13:00',
+  'Sun 10:00',
+] as const;
+
+export type Timeslot = (typeof TIMESLOTS)[number];
+
+export const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'] as const;
+
+export type Day = (typeof DAYS)[number];
+
+// Pods meet for one 45-minute session a week
+export const MEETING_MINUTES = 45;
+
+// Picking a single time means "free for a meeting starting within half an
+// hour of it", so Tue 11:30 and Tue 12:00 can share a Tue 11:30 pod
+export const SLOT_FLEX_MINUTES = 30;
+
+const DAY_MINUTES = 24 * 60;
+
+// One stretch of availability, in minutes after midnight
+export interface TimeWindow {
+  day: Day;
+  start: number;
+  duration: number;
+}
+
+export const isTimeslot = (value: string): value is Timeslot => (TIMESLOTS as readonly string[]).includes(value);
+
+const parseDay = (raw: string): Day | null =>
+  DAYS.find((value) => value.toLowerCase() === raw.slice(0, 3).toLowerCase()) ?? null;
+
+const parseClock = (raw: string): number | null => {
+  const match = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/i.exec(raw.trim());
+  if (!match) return null;
+  let hour = parseInt(match[1], 10);
+  const minute = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3]?.toLowerCase();
+  if (minute > 59) return null;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === 'pm' ? 12 : 0);
+  } else if (hour > 23) {
+    return null;
+  }
+  return hour * 60 + minute;
+};
+
+const formatClock = (minutes: number): string =>
+  `${Math.floor(minutes / 60)
+    .toString()
+    .padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+
+export const formatTimeslot = (day: Day, start: number): string => `${day} ${formatClock(start)}`;
+
+// Split "Wednesday 11am - 1pm" into its day and one or two clock times
+const parseParts = (raw: string): { day: Day; start: number; end: number | null } | null => {
+  const match = /^([a-z]{3}[a-z]*)\.?\s+([^-–]+?)(?:\s*[-–]\s*(.+))?$/i.exec(raw.trim());
+  if (!match) return null;
+  const day = parseDay(match[1]);
+  const start = parseClock(match[2]);
+  if (!day || start === null) return null;
+  if (match[3] === undefined) return { day, start, end: null };
+  const end = parseClock(match[3]);
+  if (end === null || end <= start) return null;
+  return { day, start, end };
+};
+
+// Day and start minute of a single meeting time such as "Tue 11:30"
+export const parseTimeslot = (slot: string): { day: Day; start: number } | null => {
+  const parts = parseParts(slot);
+  return parts && parts.end === null ? { day: parts.day, start: parts.start } : null;
+};
+
+// Rewrite loose spellings such as "wed 12:30pm" or "Wednesday 4 PM" into the
+// canonical "Wed 12:30" form. Returns null when the text is not a day + time.
+export const normalizeTimeslot = (raw: string): string | null => {
+  const parts = parseParts(raw);
+  if (!parts || parts.end !== null) return null;
+  return formatTimeslot(parts.day, parts.start);
+};
+
+// Like normalizeTimeslot, but also accepts explicit ranges such as
+// "Tue 11am-1pm", written back as "Tue 11:00-13:00"
+export const normalizeAvailability = (raw: string): string | null => {
+  const parts = parseParts(raw);
+  if (!parts) return null;
+  const slot = formatTimeslot(parts.day, parts.start);
+  return parts.end === null ? slot : `${slot}-${formatClock(parts.end)}`;
+};
+
+// Turn one availability entry into the window a meeting has to fit inside.
+// A single time is widened by SLOT_FLEX_MINUTES on both sides.
+export const parseTimeWindow = (raw: string): TimeWindow | null => {
+  const parts = parseParts(raw);
+  if (!parts) return null;
+  if (parts.end !== null) return { day: parts.day, start: parts.start, duration: parts.end - parts.start };
+  const start = Math.max(0, parts.start - SLOT_FLEX_MINUTES);
+  const end = Math.min(DAY_MINUTES, parts.start + MEETING_MINUTES + SLOT_FLEX_MINUTES);
+  return { day: parts.day, start, duration: end - start };
+};
+
+export const availabilityWindows = (times: readonly string[]): TimeWindow[] =>
+  times.map(parseTimeWindow).filter((window): window is TimeWindow => window !== null);
+
+// Minutes two windows share; 0 on different days
+export const overlapMinutes = (a: TimeWindow, b: TimeWindow): number => {
+  if (a.day !== b.day) return 0;
+  return Math.max(0, Math.min(a.start + a.duration, b.start + b.duration) - Math.max(a.start, b.start));
+};
+
+// Whether a meeting starting at `slot` fits inside one of the windows
+export const canMeetAt = (windows: readonly TimeWindow[], slot: string, meetingMinutes = MEETING_MINUTES): boolean => {
+  const parts = parseParts(slot);
+  if (!parts) return false;
+  return windows.some(
+    (window) =>
+      window.day === parts.day &&
+      parts.start >= window.start &&
+      parts.start + meetingMinutes <= window.start + window.duration
+  );
+};
+
+// Meetings starting between 11:00 and 13:59, when commuters are on campus
+export const isMidday = (slot: string): boolean => {
+  const parts = parseParts(slot);
+  return parts !== null && parts.start >= 11 * 60 && parts.start < 14 * 60;
+};
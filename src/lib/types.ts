@@ -0,0 +1,62 @@
+// Shapes of the JSON files under public/data, shared by every page. The
+// matching scripts write the same shapes (see scripts/lib/types.ts), and
+// src/lib/data.ts checks each file against them at runtime.
+
+export type User = {
+  id: string;
+  name: string;
+  email: string;
+  zone: string;
+  interests: string[];
+  times: string[];
+  tags: string[];
+};
+
+export type Pod = {
+  id: string;
+  zone: string;
+  timeslot: string;
+  interests: string[];
+  tags: string[];
+  memberIds: string[];
+  captainId?: string | null;
+  spaceId?: string | null;
+  // Virtual pods meet online instead of in a space
+  meetingLink?: string | null;
+  points: number;
+  level: number;
+  vibe: number;
+};
+
+export type Quest = {
+  id: string;
+  week: number;
+  title: string;
+  description: string;
+  badges: string[];
+  points: { base: number; coop4: number; coop6: number };
+};
+
+export type Badge = {
+  id: string;
+  name: string;
+  icon: string;
+  criteria: string;
+};
+
+export type Reward = {
+  id: string;
+  name: string;
+  description: string;
+  cost: number;
+};
+
+export type Space = {
+  id: string;
+  name: string;
+  zone: string;
+  ada: boolean;
+  sensoryFriendly: boolean;
+  capacity: number;
+  available?: boolean;
+};
@@ -1,6 +1,8 @@
-const MIN_WEEK = 1;
-const MAX_WEEK = 14;
-const WEEK_STORAGE_KEY = 'currentWeek';
+import { publish } from './events';
+import { storage } from './storage';
+
+export const MIN_WEEK = 1;
+export const MAX_WEEK = 14;
 
 export const clampWeek = (value: number) => Math.min(MAX_WEEK, Math.max(MIN_WEEK, Math.round(value)));
 
@@ -16,19 +18,16 @@ export const deriveWeekFromAnchor = (referenceDate: Date = new Date()) => {
 export const getRealWeek = () => deriveWeekFromAnchor(new Date());
 
 export const readStoredWeek = () => {
-  if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
+  if (typeof window === 'undefined') {
     return getRealWeek();
   }
-  const stored = localStorage.getItem(WEEK_STORAGE_KEY);
-  if (stored) {
-    const parsed = parseInt(stored, 10);
-    if (!Number.isNaN(parsed)) {
-      return clampWeek(parsed);
-    }
+  const stored = storage.session.week();
+  if (stored !== null) {
+    return clampWeek(stored);
   }
   const derived = getRealWeek();
   try {
-    localStorage.setItem(WEEK_STORAGE_KEY, derived.toString());
+    storage.session.setWeek(derived);
   } catch (error) {
     console.error('Unable to persist derived week', error);
   }
@@ -36,13 +35,13 @@ export const readStoredWeek = () => {
 };
 
 export const persistWeek = (week: number) => {
-  if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
+  if (typeof window === 'undefined') {
     return;
   }
   try {
-    localStorage.setItem(WEEK_STORAGE_KEY, clampWeek(week).toString());
+    storage.session.setWeek(clampWeek(week));
+    publish({ type: 'week-updated', week: clampWeek(week) });
   } catch (error) {
     console.error('Unable to persist current week', error);
   }
 };
-
@@ -0,0 +1,14 @@
+export const ZONES = ['Tempe', 'West', 'Poly', 'DTPHX'] as const;
+
+export type Zone = (typeof ZONES)[number];
+
+export const isZone = (value: string): value is Zone => (ZONES as readonly string[]).includes(value);
+
+// Students who can't be on campus meet online with students from any campus
+export const VIRTUAL_ZONE = 'Virtual';
+
+export const STUDENT_ZONES = [...ZONES, VIRTUAL_ZONE] as const;
+
+export type StudentZone = (typeof STUDENT_ZONES)[number];
+
+export const isVirtualZone = (value: string): boolean => value === VIRTUAL_ZONE;
@@ -2,6 +2,8 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
 import App from './App';
+import StateVersionNotice from './components/StateVersionNotice';
+import { StateVersionError, configureStorage, createHttpRepositories, runMigrations, withOutbox } from './lib/storage';
 import './index.css';
 
 // Entry point for the SunDevil Pods+ prototype. We render the
@@ -9,15 +11,53 @@ import './index.css';
 // BrowserRouter so that the SignUp and PodDashboard pages can
 // leverage declarative routing via react-router.
 
+// `VITE_STORAGE=http` (with VITE_API_URL) keeps pod progress on a server;
+// otherwise everything stays in this browser's localStorage. Check-ins made
+// while the server is out of reach wait in the outbox.
+if (import.meta.env.VITE_STORAGE === 'http') {
+  configureStorage(withOutbox(createHttpRepositories(import.meta.env.VITE_API_URL || '/api')));
+}
+
+// Caches the app shell and /data for offline use. Left out of `npm run dev`
+// so a stale cache never hides a change being worked on.
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => console.error('Unable to register the service worker', error));
+  });
+}
+
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error('Root element not found');
 }
 
+// Upgrade whatever an older build left in localStorage before any page reads
+// it. Data from a newer build is left untouched and the app does not start.
+// Storage that is blocked or full is not a reason to show a blank page: the
+// upgrade is retried on the next visit and the app opens without it.
+let versionError: StateVersionError | null = null;
+try {
+  runMigrations(localStorage);
+} catch (error) {
+  if (error instanceof StateVersionError) {
+    console.error(error.message);
+    versionError = error;
+  } else if (error instanceof DOMException) {
+    // SecurityError when storage is blocked, QuotaExceededError when it is full
+    console.error('Unable to upgrade saved pod data in this browser', error);
+  } else {
+    throw error;
+  }
+}
+
 ReactDOM.createRoot(rootElement).render(
   <React.StrictMode>
-    <BrowserRouter>
-      <App />
-    </BrowserRouter>
+    {versionError ? (
+      <StateVersionNotice error={versionError} />
+    ) : (
+      <BrowserRouter>
+        <App />
+      </BrowserRouter>
+    )}
   </React.StrictMode>
 );
\ No newline at end of file
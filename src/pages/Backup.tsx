@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { downloadJson } from '../lib/files';
+import { publish } from '../lib/events';
+import {
+  BackupError,
+  ImportPlan,
+  Resolution,
+  applyImport,
+  createBackup,
+  defaultResolution,
+  planImport,
+} from '../lib/storage';
+
+const RESOLUTION_LABELS: Record<Resolution, string> = {
+  merge: 'Combine both',
+  keep: 'Keep this browser',
+  replace: 'Use the backup',
+};
+
+const preview = (value: string) => (value.length > 80 ? `${value.slice(0, 77)}…` : value);
+
+const Backup: React.FC = () => {
+  const [exportMessage, setExportMessage] = useState<string | null>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [choices, setChoices] = useState<Record<string, Resolution>>({});
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = () => {
+    createBackup(localStorage)
+      .then((backup) => {
+        downloadJson(`sundevil-pods-backup-${backup.exportedAt.slice(0, 10)}.json`, backup);
+        setExportMessage(`Saved ${Object.keys(backup.entries).length} item(s) from this browser.`);
+      })
+      .catch((reason) => {
+        console.error('Unable to export backup', reason);
+        setExportMessage('The backup could not be created in this browser.');
+      });
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    setPlan(null);
+    setImportMessage(null);
+    setError(null);
+    if (!file) return;
+    file
+      .text()
+      .then((text) => planImport(text, localStorage))
+      .then((nextPlan) => {
+        setPlan(nextPlan);
+        setChoices(Object.fromEntries(nextPlan.conflicts.map((conflict) => [conflict.key, defaultResolution(conflict)])));
+      })
+      .catch((reason) => {
+        if (reason instanceof BackupError) {
+          setError(reason.message);
+        } else {
+          console.error('Unable to read backup', reason);
+          setError('This file could not be read.');
+        }
+      });
+  };
+
+  const handleRestore = () => {
+    if (!plan) return;
+    const written = applyImport(plan, choices, localStorage);
+    setPlan(null);
+    setImportMessage(`Restored ${written} item(s).`);
+    // Let the header and any open pages pick up the restored session and points
+    publish({ type: 'session-updated' });
+    publish({ type: 'role-updated' });
+  };
+
+  const addedCount = plan ? Object.keys(plan.added).length : 0;
+
+  return (
+    <div className="space-y-6">
+      <section className="bg-white/80 backdrop-blur border border-white/60 rounded-2xl shadow-xl p-6 sm:p-8 space-y-3">
+        <h1 className="text-3xl font-extrabold text-asuMaroon">Back up your pod data</h1>
+        <p className="text-gray-600 text-sm">
+          Points, badges, check-ins, quest completions, pulse history, captain applications and your sign-up answers live in
+          this browser. Save them to a file before clearing your browser, then restore the file here on any device.
+        </p>
+        {import.meta.env.VITE_STORAGE === 'http' && (
+          <p className="rounded-2xl border border-asuGold/40 bg-asuGold/20 px-4 py-2 text-xs font-semibold text-asuMaroon">
+            This site keeps pod progress on its server, so a backup only holds what this browser stores (your sign-up and
+            session).
+          </p>
+        )}
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={handleExport}
+            className="rounded-full px-5 py-3 bg-asuMaroon text-white text-sm font-semibold shadow-lg hover:bg-[#6f1833]"
+          >
+            Export backup
+          </button>
+          {exportMessage && <span className="text-sm text-emerald-600 font-semibold">{exportMessage}</span>}
+        </div>
+      </section>
+
+      <section className="bg-white/80 backdrop-blur border border-white/60 rounded-2xl shadow-xl p-6 sm:p-8 space-y-4">
+        <h2 className="text-xl font-semibold text-asuMaroon">Restore a backup</h2>
+        <label className="flex flex-col gap-2 text-sm">
+          <span className="font-semibold text-asuMaroon">Backup file</span>
+          <input type="file" accept="application/json,.json" onChange={handleFileChange} className="text-sm" />
+        </label>
+        {error && (
+          <p role="alert" className="rounded-2xl border border-red-300 bg-red-50 px-4 py-2 text-sm text-red-800">
+            {error}
+          </p>
+        )}
+        {importMessage && <p className="text-sm text-emerald-600 font-semibold">{importMessage}</p>}
+
+        {plan && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Exported {new Date(plan.exportedAt).toLocaleString()}: {addedCount} new item(s), {plan.unchanged.length} already
+              here, {plan.conflicts.length} that differ from this browser.
+            </p>
+            {plan.migrated.length > 0 && (
+              <p className="text-xs text-gray-500">
+                This backup came from an older version of the app and was upgraded first ({plan.migrated.length} change(s)).
+              </p>
+            )}
+            {plan.conflicts.length > 0 && (
+              <ul className="space-y-3">
+                {plan.conflicts.map((conflict) => (
+                  <li key={conflict.key} className="rounded-2xl border border-asuMaroon/20 bg-white/80 p-4 text-sm space-y-2">
+                    <code className="font-semibold text-asuMaroon">{conflict.key}</code>
+                    <dl className="grid gap-1 text-xs text-gray-600 sm:grid-cols-[8rem_1fr]">
+                      <dt className="font-semibold">This browser</dt>
+                      <dd className="break-all">{preview(conflict.current)}</dd>
+                      <dt className="font-semibold">Backup</dt>
+                      <dd className="break-all">{preview(conflict.incoming)}</dd>
+                    </dl>
+                    <select
+                      aria-label={`Resolve ${conflict.key}`}
+                      value={choices[conflict.key]}
+                      onChange={(event) =>
+                        setChoices((prev) => ({ ...prev, [conflict.key]: event.target.value as Resolution }))
+                      }
+                      className="rounded-xl border border-asuGray/60 px-3 py-1 text-sm shadow-sm outline-none focus:border-asuMaroon"
+                    >
+                      {(Object.keys(RESOLUTION_LABELS) as Resolution[])
+                        .filter((resolution) => resolution !== 'merge' || conflict.merged !== null)
+                        .map((resolution) => (
+                          <option key={resolution} value={resolution}>
+                            {RESOLUTION_LABELS[resolution]}
+                          </option>
+                        ))}
+                    </select>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex flex-wrap gap-3">
+              <button
+                type="button"
+                onClick={handleRestore}
+                disabled={addedCount === 0 && plan.conflicts.length === 0}
+                className="rounded-full px-5 py-3 bg-asuGold text-black text-sm font-semibold shadow-lg hover:brightness-95 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Restore
+              </button>
+              <button
+                type="button"
+                onClick={() => setPlan(null)}
+                className="rounded-full px-5 py-3 border border-asuMaroon/30 text-asuMaroon text-sm font-semibold hover:bg-asuMaroon/10"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default Backup;
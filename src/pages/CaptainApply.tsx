@@ -2,25 +2,10 @@ import React, { useEffect, useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { objectUrlForFile, isPdfFile } from '../lib/files';
 import { setRole } from '../lib/roles';
-
-export type CaptainApplicationStatus = 'pending' | 'approved' | 'rejected';
-
-export interface CaptainApplication {
-  id: string;
-  name: string;
-  email: string;
-  zones: string[];
-  availability: string[];
-  about: string;
-  resumeName: string;
-  resumeUrl: string;
-  createdAt: string;
-  status: CaptainApplicationStatus;
-}
-
-const ZONES = ['Tempe', 'West', 'Poly', 'DTPHX'] as const;
-const AVAILABILITY = ['Mornings', 'Afternoons', 'Evenings', 'Weekends', 'Virtual'] as const;
-const APPLICATION_KEY = 'captainApplications';
+import { publish } from '../lib/events';
+import { ZONES } from '../lib/zones';
+import { CAPTAIN_AVAILABILITY } from '../lib/captains';
+import { CaptainApplication, storage } from '../lib/storage';
 
 const uid = () => {
   if (typeof crypto !== 'undefined' && crypto.randomUUID) {
@@ -29,28 +14,6 @@ const uid = () => {
   return `app-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
 };
 
-const readApplications = (): CaptainApplication[] => {
-  if (typeof window === 'undefined') return [];
-  try {
-    const stored = localStorage.getItem(APPLICATION_KEY);
-    if (!stored) return [];
-    const parsed = JSON.parse(stored);
-    if (!Array.isArray(parsed)) return [];
-    return parsed as CaptainApplication[];
-  } catch (error) {
-    console.error('Unable to read captain applications', error);
-    return [];
-  }
-};
-
-const persistApplications = (applications: CaptainApplication[]) => {
-  try {
-    localStorage.setItem(APPLICATION_KEY, JSON.stringify(applications));
-  } catch (error) {
-    console.error('Unable to persist captain applications', error);
-  }
-};
-
 const CaptainApply: React.FC = () => {
   const navigate = useNavigate();
   const [name, setName] = useState('');
@@ -64,16 +27,9 @@ const CaptainApply: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    try {
-      const profileRaw = localStorage.getItem('signupProfile');
-      if (profileRaw) {
-        const profile = JSON.parse(profileRaw) as { name?: string; email?: string };
-        if (profile.name) setName(profile.name);
-        if (profile.email) setEmail(profile.email);
-      }
-    } catch (profileError) {
-      console.error('Unable to hydrate signup profile', profileError);
-    }
+    const profile = storage.session.profile();
+    if (profile?.name) setName(profile.name);
+    if (profile?.email) setEmail(profile.email);
   }, []);
 
   useEffect(() => () => {
@@ -119,14 +75,21 @@ const CaptainApply: React.FC = () => {
     setError(null);
   };
 
-  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     if (!isValid || !resumePreview) {
       setError('Please complete all required fields before submitting.');
       return;
     }
 
-    const applications = readApplications();
+    let applications: CaptainApplication[];
+    try {
+      applications = await storage.applications.list();
+    } catch (listError) {
+      console.error('Unable to read captain applications', listError);
+      setError('We could not reach the application list. Please try again.');
+      return;
+    }
     const existing = applications.find((app) => app.email.toLowerCase() === email.trim().toLowerCase());
     const storedUrl = resumeFile ? URL.createObjectURL(resumeFile) : resumePreview.url;
     const application: CaptainApplication = {
@@ -146,9 +109,16 @@ const CaptainApply: React.FC = () => {
       ? applications.map((entry) => (entry.id === application.id ? application : entry))
       : [...applications, application];
 
-    persistApplications(nextApplications);
+    try {
+      await storage.applications.save(nextApplications);
+    } catch (saveError) {
+      console.error('Unable to persist captain applications', saveError);
+      setError('We could not save your application. Please try again.');
+      return;
+    }
+    publish({ type: 'applications-updated' });
     setRole('captain-candidate');
-    window.dispatchEvent(new Event('pods:session-updated'));
+    publish({ type: 'session-updated' });
     navigate('/apply/success');
   };
 
@@ -244,7 +214,7 @@ const CaptainApply: React.FC = () => {
                 <p className="text-xs text-gray-500">Tap each block you can host. We recommend setting at least three options.</p>
               </div>
               <div className="flex flex-wrap gap-2">
-                {AVAILABILITY.map((slot) => {
+                {CAPTAIN_AVAILABILITY.map((slot) => {
                   const active = availability.includes(slot);
                   return (
                     <button
@@ -1,47 +1,16 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import type { CaptainApplication } from './CaptainApply';
 import { adjustPoints, getPoints, setPoints } from '../lib/points';
+import { publish, subscribe } from '../lib/events';
 import { Role, currentUserId as getCurrentUserId, getRole, setCurrentUserId, setRole } from '../lib/roles';
 import { clampWeek, getRealWeek, persistWeek, readStoredWeek } from '../lib/weeks';
+import { downloadJson } from '../lib/files';
+import { checkinKey } from '../lib/attendance';
+import { DataError, loadDataFiles } from '../lib/data';
+import type { Pod, Quest, Space, User } from '../lib/types';
+import DataErrorPanel from '../components/DataErrorPanel';
+import { CaptainApplication, storage } from '../lib/storage';
 
-interface Pod {
-  id: string;
-  zone: string;
-  timeslot: string;
-  interests: string[];
-  tags: string[];
-  memberIds: string[];
-  captainId?: string | null;
-}
-
-interface User {
-  id: string;
-  name: string;
-  email: string;
-}
-
-interface Quest {
-  id: string;
-  week: number;
-  title: string;
-  description: string;
-  badges: string[];
-  points: { base: number };
-}
-
-interface Space {
-  id: string;
-  name: string;
-  zone: string;
-  ada: boolean;
-  sensoryFriendly: boolean;
-  capacity: number;
-  available?: boolean;
-}
-
-const APPLICATION_KEY = 'captainApplications';
-const ASSIGNED_CAPTAINS_KEY = 'assignedCaptains';
 const weeks = Array.from({ length: 14 }, (_, idx) => idx + 1);
 
 const getEffectiveAvailability = (space: Space, overrides: Record<string, boolean>): boolean => {
@@ -49,66 +18,16 @@ const getEffectiveAvailability = (space: Space, overrides: Record<string, boolea
   return typeof space.available === 'boolean' ? space.available : true;
 };
 
-const readApplications = (): CaptainApplication[] => {
-  if (typeof window === 'undefined') return [];
-  try {
-    const stored = localStorage.getItem(APPLICATION_KEY);
-    if (!stored) return [];
-    const parsed = JSON.parse(stored);
-    return Array.isArray(parsed) ? (parsed as CaptainApplication[]) : [];
-  } catch (error) {
-    console.error('Unable to read captain applications', error);
-    return [];
-  }
-};
-
-const persistApplications = (applications: CaptainApplication[]) => {
-  try {
-    localStorage.setItem(APPLICATION_KEY, JSON.stringify(applications));
-    window.dispatchEvent(new Event('pods:applications-updated'));
-  } catch (error) {
-    console.error('Unable to persist captain applications', error);
-  }
-};
-
-const readSpaceOverrides = (): Record<string, boolean> => {
-  if (typeof window === 'undefined') return {};
-  const overrides: Record<string, boolean> = {};
-  for (let index = 0; index < localStorage.length; index += 1) {
-    const key = localStorage.key(index);
-    if (!key || !key.startsWith('spaceAvail:')) continue;
-    const [, spaceId] = key.split(':');
-    overrides[spaceId] = localStorage.getItem(key) === '1';
-  }
-  return overrides;
-};
-
-const addAssignedCaptain = (email: string) => {
-  if (typeof window === 'undefined') return;
-  try {
-    const stored = localStorage.getItem(ASSIGNED_CAPTAINS_KEY);
-    const existing = stored ? (JSON.parse(stored) as string[]) : [];
-    if (!existing.includes(email)) {
-      const next = [...existing, email];
-      localStorage.setItem(ASSIGNED_CAPTAINS_KEY, JSON.stringify(next));
-    }
-  } catch (error) {
-    console.error('Unable to persist assigned captain email', error);
-  }
+const averageScore = (scores: number[]) => {
+  const avg = scores.reduce((sum, value) => sum + value, 0) / scores.length;
+  return Number.isFinite(avg) ? avg : null;
 };
 
-const lastPulseAverage = () => {
-  if (typeof window === 'undefined') return null;
-  try {
-    const history: { date: string; scores: number[] }[] = JSON.parse(localStorage.getItem('belongingPulse') || '[]');
-    if (history.length === 0) return null;
-    const latest = history[history.length - 1];
-    const avg = latest.scores.reduce((sum, value) => sum + value, 0) / latest.scores.length;
-    return Number.isFinite(avg) ? avg : null;
-  } catch (error) {
-    console.error('Unable to read belonging pulse history', error);
-    return null;
-  }
+type MemberRow = {
+  user: User;
+  checkins: Record<number, boolean>;
+  quests: Record<number, boolean>;
+  totalPoints: number;
 };
 
 const CaptainConsole: React.FC = () => {
@@ -119,67 +38,64 @@ const CaptainConsole: React.FC = () => {
   const [users, setUsers] = useState<User[]>([]);
   const [quests, setQuests] = useState<Quest[]>([]);
   const [spaces, setSpaces] = useState<Space[]>([]);
-  const [applications, setApplications] = useState<CaptainApplication[]>(() => readApplications());
-  const [spaceOverrides, setSpaceOverrides] = useState<Record<string, boolean>>(() => readSpaceOverrides());
+  const [applications, setApplications] = useState<CaptainApplication[]>([]);
+  const [spaceOverrides, setSpaceOverrides] = useState<Record<string, boolean>>({});
   const [activeTab, setActiveTab] = useState<'members' | 'spaces' | 'quests' | 'applications'>('members');
   const [refreshToken, setRefreshToken] = useState(0);
   const [currentWeek, setCurrentWeek] = useState<number>(readStoredWeek());
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [dataErrors, setDataErrors] = useState<DataError[]>([]);
   const [issuedMessage, setIssuedMessage] = useState<string | null>(null);
   const [dismissedRecommendations, setDismissedRecommendations] = useState<boolean>(false);
   const [vibeVersion, setVibeVersion] = useState<number>(0);
+  const [memberRows, setMemberRows] = useState<MemberRow[]>([]);
+  const [vibeTrail, setVibeTrail] = useState<number[]>([]);
+  const [pulseAverage, setPulseAverage] = useState<number | null>(null);
 
   useEffect(() => {
     const hydrate = async () => {
-      try {
-        const [podsRes, usersRes, questsRes, spacesRes] = await Promise.all([
-          fetch('/data/pods.json'),
-          fetch('/data/users.json'),
-          fetch('/data/quests.json'),
-          fetch('/data/spaces.json'),
-        ]);
-        if (podsRes.ok) setPods(await podsRes.json());
-        if (usersRes.ok) setUsers(await usersRes.json());
-        if (questsRes.ok) setQuests(await questsRes.json());
-        if (spacesRes.ok) setSpaces(await spacesRes.json());
-      } catch (error) {
-        console.error('Unable to load captain console data', error);
-      } finally {
-        setIsLoading(false);
-      }
+      const { data, errors } = await loadDataFiles(['pods.json', 'users.json', 'quests.json', 'spaces.json']);
+      errors.forEach((error) => console.error('Unable to load captain console data', error.message));
+      setPods(data['pods.json'] ?? []);
+      setUsers(data['users.json'] ?? []);
+      setQuests(data['quests.json'] ?? []);
+      setSpaces(data['spaces.json'] ?? []);
+      setDataErrors(errors);
+      setIsLoading(false);
     };
     hydrate();
   }, []);
 
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-    const handleVibeUpdate = () => setVibeVersion((value) => value + 1);
-    window.addEventListener('pods:vibe-updated', handleVibeUpdate);
-    window.addEventListener('storage', handleVibeUpdate);
-    return () => {
-      window.removeEventListener('pods:vibe-updated', handleVibeUpdate);
-      window.removeEventListener('storage', handleVibeUpdate);
-    };
-  }, []);
+  useEffect(() => subscribe('vibe-updated', () => setVibeVersion((value) => value + 1)), []);
 
   useEffect(() => {
     const syncRole = () => setRoleState(getRole());
     const syncUser = () => setCurrentId(getCurrentUserId());
-    const syncApplications = () => setApplications(readApplications());
-    const syncSpaces = () => setSpaceOverrides(readSpaceOverrides());
-
-    window.addEventListener('pods:role-updated', syncRole);
-    window.addEventListener('pods:session-updated', syncUser);
-    window.addEventListener('pods:applications-updated', syncApplications);
-    window.addEventListener('storage', syncApplications);
-    window.addEventListener('storage', syncSpaces);
-    return () => {
-      window.removeEventListener('pods:role-updated', syncRole);
-      window.removeEventListener('pods:session-updated', syncUser);
-      window.removeEventListener('pods:applications-updated', syncApplications);
-      window.removeEventListener('storage', syncApplications);
-      window.removeEventListener('storage', syncSpaces);
+    const syncApplications = () => {
+      storage.applications
+        .list()
+        .then(setApplications)
+        .catch((error) => console.error('Unable to read captain applications', error));
     };
+    const syncSpaces = () => {
+      storage.spaces
+        .availability()
+        .then(setSpaceOverrides)
+        .catch((error) => console.error('Unable to read space availability overrides', error));
+    };
+    syncApplications();
+    syncSpaces();
+
+    const unsubscribers = [
+      subscribe('role-updated', syncRole),
+      subscribe('session-updated', syncUser),
+      subscribe('applications-updated', syncApplications),
+      subscribe('spaces-updated', syncSpaces),
+      // Members' check-ins and points change the grid
+      subscribe(['progress-updated', 'points-updated'], () => setRefreshToken((value) => value + 1)),
+      subscribe('week-updated', (event) => setCurrentWeek(event.week)),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, []);
 
   const realWeek = useMemo(() => getRealWeek(), []);
@@ -200,12 +116,10 @@ const CaptainConsole: React.FC = () => {
       setIssuedMessage(null);
       return;
     }
-    const key = `issuedQuest:${activePod.id}:${currentWeek}`;
-    if (localStorage.getItem(key)) {
-      setIssuedMessage('This week’s quest is already out to your pod.');
-    } else {
-      setIssuedMessage(null);
-    }
+    storage.progress
+      .questIssuedAt(activePod.id, currentWeek)
+      .then((issuedAt) => setIssuedMessage(issuedAt ? 'This week’s quest is already out to your pod.' : null))
+      .catch((error) => console.error('Unable to read issued quests', error));
   }, [activePod, currentWeek, refreshToken]);
 
   const podMembers = useMemo(() => {
@@ -215,98 +129,122 @@ const CaptainConsole: React.FC = () => {
       .filter((user): user is User => Boolean(user));
   }, [activePod, users]);
 
-  const memberRows = useMemo(() => {
-    if (!activePod) return [];
-    return podMembers.map((member) => {
-      const checkins: Record<number, boolean> = {};
-      const questsComplete: Record<number, boolean> = {};
-      weeks.forEach((week) => {
-        checkins[week] = Boolean(localStorage.getItem(`checkin:${activePod.id}:${week}:${member.id}`));
-        questsComplete[week] = Boolean(localStorage.getItem(`quest:${activePod.id}:${week}:${member.id}`));
-      });
-      const totalPoints = getPoints(member.id);
-      return {
-        user: member,
-        checkins,
-        quests: questsComplete,
-        totalPoints,
-      };
-    });
+  useEffect(() => {
+    if (!activePod) {
+      setMemberRows([]);
+      return;
+    }
+    let cancelled = false;
+    const loadRows = async () => {
+      const marks = await storage.progress.list(activePod.id);
+      const done = new Set(marks.map((mark) => `${mark.kind}:${mark.week}:${mark.userId}`));
+      const totals = await Promise.all(podMembers.map((member) => getPoints(member.id)));
+      if (cancelled) return;
+      setMemberRows(
+        podMembers.map((member, index) => {
+          const checkins: Record<number, boolean> = {};
+          const questsComplete: Record<number, boolean> = {};
+          weeks.forEach((week) => {
+            checkins[week] = done.has(`checkin:${week}:${member.id}`);
+            questsComplete[week] = done.has(`quest:${week}:${member.id}`);
+          });
+          return {
+            user: member,
+            checkins,
+            quests: questsComplete,
+            totalPoints: totals[index],
+          };
+        })
+      );
+    };
+    loadRows().catch((error) => console.error('Unable to load member progress', error));
+    return () => {
+      cancelled = true;
+    };
   }, [activePod, podMembers, refreshToken]);
 
-  const vibeTrail = useMemo(() => {
-    if (typeof window === 'undefined' || !activePod) return [] as number[];
-    try {
-      const directRaw = localStorage.getItem(`vibeRatings:${activePod.id}`);
-      const aggregateRaw = directRaw ?? localStorage.getItem('vibeRatings');
-      if (!aggregateRaw) return [] as number[];
-      const parsed = JSON.parse(aggregateRaw);
-      const values = directRaw ? parsed : parsed?.[activePod.id];
-      if (!Array.isArray(values)) return [] as number[];
-      return values.map((value: unknown) => {
-        const asNumber = Number(value);
-        return Number.isFinite(asNumber) ? asNumber : 0;
-      });
-    } catch (error) {
-      console.error('Unable to read vibe ratings for recommendations', error);
-      return [] as number[];
+  useEffect(() => {
+    if (typeof window === 'undefined' || !activePod) {
+      setVibeTrail([]);
+      return;
     }
+    storage.pulses
+      .vibe(activePod.id)
+      .then(setVibeTrail)
+      .catch((error) => {
+        console.error('Unable to read vibe ratings for recommendations', error);
+        setVibeTrail([]);
+      });
   }, [activePod, vibeVersion]);
 
   useEffect(() => {
-    if (typeof window === 'undefined') return;
+    storage.pulses
+      .history(currentUserId)
+      .then((history) => setPulseAverage(history.length > 0 ? averageScore(history[history.length - 1].scores) : null))
+      .catch((error) => console.error('Unable to read belonging pulse history', error));
+  }, [currentUserId]);
+
+  // Sample progress for the browser-only demo. A server holds real pods'
+  // attendance, which rebalancing and the attendance export read, so nothing
+  // made up is ever written there.
+  useEffect(() => {
+    if (typeof window === 'undefined' || import.meta.env.VITE_STORAGE === 'http') return;
     if (!activePod || podMembers.length === 0) return;
     const seedKey = `progressSeeded:${activePod.id}`;
-    if (localStorage.getItem(seedKey)) return;
-
-    podMembers.forEach((member, memberIndex) => {
-      let calculatedPoints = 0;
-      weeks.forEach((week) => {
-        const withinSeason = week <= realWeek;
-        const checkinKey = `checkin:${activePod.id}:${week}:${member.id}`;
-        const questKey = `quest:${activePod.id}:${week}:${member.id}`;
-        if (!localStorage.getItem(checkinKey) && withinSeason) {
-          const assigned = memberIndex === 0 && (week === 7 || week === 8) ? false : (memberIndex + week) % 3 !== 0;
-          if (assigned) {
-            localStorage.setItem(checkinKey, '1');
+
+    const seed = async () => {
+      if (localStorage.getItem(seedKey)) return;
+      const marks = await storage.progress.list(activePod.id);
+      const done = new Set(marks.map((mark) => `${mark.kind}:${mark.week}:${mark.userId}`));
+
+      for (const [memberIndex, member] of podMembers.entries()) {
+        let calculatedPoints = 0;
+        for (const week of weeks) {
+          const withinSeason = week <= realWeek;
+          if (!done.has(`checkin:${week}:${member.id}`) && withinSeason) {
+            const assigned = memberIndex === 0 && (week === 7 || week === 8) ? false : (memberIndex + week) % 3 !== 0;
+            if (assigned) {
+              await storage.progress.set({ kind: 'checkin', podId: activePod.id, week, userId: member.id }, true);
+              calculatedPoints += 10;
+            }
+          } else if (done.has(`checkin:${week}:${member.id}`)) {
             calculatedPoints += 10;
           }
-        } else if (localStorage.getItem(checkinKey)) {
-          calculatedPoints += 10;
-        }
 
-        if (!localStorage.getItem(questKey) && withinSeason) {
-          const lockedMember = memberIndex === podMembers.length - 1;
-          const assigned = !lockedMember && ((memberIndex + week) % 5 === 0 || (memberIndex % 2 === 0 && week % 4 === 0));
-          if (assigned) {
-            localStorage.setItem(questKey, '1');
+          if (!done.has(`quest:${week}:${member.id}`) && withinSeason) {
+            const lockedMember = memberIndex === podMembers.length - 1;
+            const assigned = !lockedMember && ((memberIndex + week) % 5 === 0 || (memberIndex % 2 === 0 && week % 4 === 0));
+            if (assigned) {
+              await storage.progress.set({ kind: 'quest', podId: activePod.id, week, userId: member.id }, true);
+              calculatedPoints += 30;
+            }
+          } else if (done.has(`quest:${week}:${member.id}`)) {
             calculatedPoints += 30;
           }
-        } else if (localStorage.getItem(questKey)) {
-          calculatedPoints += 30;
         }
-      });
 
-      const currentPoints = getPoints(member.id);
-      if (calculatedPoints > currentPoints) {
-        setPoints(member.id, calculatedPoints);
+        const currentPoints = await getPoints(member.id);
+        if (calculatedPoints > currentPoints) {
+          await setPoints(member.id, calculatedPoints);
+        }
       }
-    });
 
-    if (!localStorage.getItem(`vibeRatings:${activePod.id}`)) {
-      const vibeTrail = weeks.map((week) => {
-        if (week > realWeek) return 0;
-        const base = 3.6 + Math.sin((week / 3) + activePod.id.length) * 0.4;
-        const adjustment = week >= realWeek - 1 ? -0.7 : week >= realWeek - 2 ? -0.4 : 0;
-        const value = Math.max(2.4, Math.min(4.8, base + adjustment));
-        return Number(value.toFixed(1));
-      });
-      localStorage.setItem(`vibeRatings:${activePod.id}`, JSON.stringify(vibeTrail));
-      window.dispatchEvent(new Event('pods:vibe-updated'));
-    }
+      if ((await storage.pulses.vibe(activePod.id)).length === 0) {
+        const vibeTrail = weeks.map((week) => {
+          if (week > realWeek) return 0;
+          const base = 3.6 + Math.sin((week / 3) + activePod.id.length) * 0.4;
+          const adjustment = week >= realWeek - 1 ? -0.7 : week >= realWeek - 2 ? -0.4 : 0;
+          const value = Math.max(2.4, Math.min(4.8, base + adjustment));
+          return Number(value.toFixed(1));
+        });
+        await storage.pulses.setVibe(activePod.id, vibeTrail);
+        publish({ type: 'vibe-updated', podId: activePod.id });
+      }
 
-    localStorage.setItem(seedKey, new Date().toISOString());
-    window.dispatchEvent(new Event('pods:points-updated'));
+      localStorage.setItem(seedKey, new Date().toISOString());
+      publish({ type: 'progress-updated', podId: activePod.id });
+    };
+    seed().catch((error) => console.error('Unable to seed demo progress', error));
   }, [activePod, podMembers, realWeek]);
 
   const focusRecommendations = useMemo(() => {
@@ -391,18 +329,18 @@ const CaptainConsole: React.FC = () => {
       }, []);
   }, [activePod, memberRows, realWeek, vibeTrail]);
 
-  const handleToggleProgress = (memberId: string, week: number, type: 'checkin' | 'quest') => {
+  const handleToggleProgress = async (memberId: string, week: number, type: 'checkin' | 'quest') => {
     if (!activePod) return;
-    const key = `${type}:${activePod.id}:${week}:${memberId}`;
-    const currentlyComplete = Boolean(localStorage.getItem(key));
-    if (currentlyComplete) {
-      localStorage.removeItem(key);
-      adjustPoints(memberId, type === 'checkin' ? -10 : -30);
-    } else {
-      localStorage.setItem(key, '1');
-      adjustPoints(memberId, type === 'checkin' ? 10 : 30);
+    const row = memberRows.find((entry) => entry.user.id === memberId);
+    const currentlyComplete = Boolean(row && (type === 'checkin' ? row.checkins : row.quests)[week]);
+    const value = type === 'checkin' ? 10 : 30;
+    try {
+      await storage.progress.set({ kind: type, podId: activePod.id, week, userId: memberId }, !currentlyComplete);
+      await adjustPoints(memberId, currentlyComplete ? -value : value);
+    } catch (error) {
+      console.error('Unable to update member progress', error);
     }
-    setRefreshToken((value) => value + 1);
+    publish({ type: 'progress-updated', podId: activePod.id });
   };
 
   const updateSharedWeek = (value: number) => {
@@ -419,24 +357,33 @@ const CaptainConsole: React.FC = () => {
     const current = getEffectiveAvailability(target, spaceOverrides);
     next[spaceId] = !current;
     setSpaceOverrides(next);
-    try {
-      localStorage.setItem(`spaceAvail:${spaceId}`, next[spaceId] ? '1' : '0');
-    } catch (error) {
-      console.error('Unable to persist space availability override', error);
-    }
+    storage.spaces
+      .setAvailability(spaceId, next[spaceId])
+      .then(() => publish({ type: 'spaces-updated' }))
+      .catch((error) => console.error('Unable to persist space availability override', error));
   };
 
   const handleIssueQuest = () => {
     if (!activePod) return;
-    const key = `issuedQuest:${activePod.id}:${currentWeek}`;
-    localStorage.setItem(key, new Date().toISOString());
-    setIssuedMessage('Quest sent! Check your pod dashboard for confirmations.');
-    setRefreshToken((value) => value + 1);
+    storage.progress
+      .issueQuest(activePod.id, currentWeek)
+      .then(() => {
+        setIssuedMessage('Quest sent! Check your pod dashboard for confirmations.');
+        setRefreshToken((value) => value + 1);
+      })
+      .catch((error) => console.error('Unable to issue quest', error));
+  };
+
+  const persistApplications = (next: CaptainApplication[]) => {
+    storage.applications
+      .save(next)
+      .then(() => publish({ type: 'applications-updated' }))
+      .catch((error) => console.error('Unable to persist captain applications', error));
   };
 
   const handleApprove = (application: CaptainApplication) => {
     const next = applications.map((entry) =>
-      entry.id === application.id ? { ...entry, status: 'approved' } : entry
+      entry.id === application.id ? { ...entry, status: 'approved' as const } : entry
     );
     setApplications(next);
     persistApplications(next);
@@ -445,23 +392,49 @@ const CaptainConsole: React.FC = () => {
     const resolvedId = matchedUser?.id ?? `captain-${Date.now().toString(36)}`;
     const resolvedName = matchedUser?.name ?? application.name;
 
-    setCurrentUserId(resolvedId);
     try {
-      localStorage.setItem('currentUserName', resolvedName);
-      localStorage.setItem('currentUserEmail', application.email);
+      storage.session.update({ name: resolvedName, email: application.email });
     } catch (error) {
       console.error('Unable to persist captain profile', error);
     }
+    setCurrentUserId(resolvedId);
     setRole('captain');
     setRoleState('captain');
-    addAssignedCaptain(application.email);
+    storage.applications
+      .assignCaptain(application.email)
+      .catch((error) => console.error('Unable to persist assigned captain email', error));
     setCurrentId(resolvedId);
-    window.dispatchEvent(new Event('pods:session-updated'));
+    publish({ type: 'session-updated' });
+  };
+
+  // captains.json for `npm run match`, which assigns approved captains to pods.
+  // The file ends up in public/, so it keeps only what the matcher reads and
+  // leaves out the pitch, résumé and application date.
+  const handleExportRoster = () => {
+    downloadJson(
+      'captains.json',
+      applications
+        .filter((entry) => entry.status === 'approved')
+        .map(({ id, name, email, zones, availability, status }) => ({ id, name, email, zones, availability, status })),
+    );
+  };
+
+  // Every pod's check-ins for `npm run rebalance`, which looks for pods
+  // that have shrunk or stopped showing up
+  const handleExportAttendance = async () => {
+    try {
+      const checkins = (await storage.progress.list())
+        .filter((mark) => mark.kind === 'checkin')
+        .map((mark) => checkinKey(mark.podId, mark.week, mark.userId));
+      downloadJson('checkins.json', { week: currentWeek, checkins: checkins.sort() });
+    } catch (error) {
+      console.error('Unable to export attendance', error);
+    }
   };
 
   const handleReject = (application: CaptainApplication) => {
     const next = applications.map((entry) =>
-      entry.id === application.id ? { ...entry, status: 'rejected' } : entry
+      entry.id === application.id ? { ...entry, status: 'rejected' as const } : entry
     );
     setApplications(next);
     persistApplications(next);
@@ -500,18 +473,21 @@ const CaptainConsole: React.FC = () => {
 
   if (!activePod) {
     return (
-      <div className="bg-white/80 backdrop-blur border border-white/60 rounded-2xl shadow-xl p-6 space-y-4">
-        <h1 className="text-3xl font-extrabold text-asuMaroon">Captain Console</h1>
-        <p className="text-sm text-gray-600">We couldn&apos;t find a pod to manage yet. Once assigned, you&apos;ll see live controls here.</p>
+      <div className="space-y-4">
+        <DataErrorPanel errors={dataErrors} />
+        <div className="bg-white/80 backdrop-blur border border-white/60 rounded-2xl shadow-xl p-6 space-y-4">
+          <h1 className="text-3xl font-extrabold text-asuMaroon">Captain Console</h1>
+          <p className="text-sm text-gray-600">We couldn&apos;t find a pod to manage yet. Once assigned, you&apos;ll see live controls here.</p>
+        </div>
       </div>
     );
   }
 
   const activeQuest = quests.find((quest) => quest.week === currentWeek) || null;
-  const pulseAverage = lastPulseAverage();
 
   return (
     <div className="space-y-6">
+      <DataErrorPanel errors={dataErrors} />
       <header className="bg-white/80 backdrop-blur border border-white/60 rounded-2xl shadow-xl p-6 sm:p-8 space-y-3">
         <div className="flex flex-col gap-4 lg:flex-row lg:items-start lg:justify-between">
           <div>
@@ -590,6 +566,18 @@ const CaptainConsole: React.FC = () => {
 
       {activeTab === 'members' && (
         <section className="bg-white/80 backdrop-blur border border-white/60 rounded-2xl shadow-xl p-6 space-y-4">
+          <header className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-xs text-gray-500">
+              Export attendance for every pod and run <code>npm run rebalance</code> to merge pods that have shrunk.
+            </p>
+            <button
+              type="button"
+              onClick={handleExportAttendance}
+              className="rounded-full border border-asuMaroon px-4 py-2 text-xs font-semibold text-asuMaroon hover:bg-asuMaroon/10"
+            >
+              Export attendance
+            </button>
+          </header>
           <div className="overflow-x-auto">
             <table className="min-w-full text-sm text-gray-700">
               <thead>
@@ -792,6 +780,18 @@ const CaptainConsole: React.FC = () => {
             <p className="text-sm text-gray-600">
               Approve to elevate peers (or yourself) into full captain mode. Status updates persist locally for demo purposes.
             </p>
+            <p className="text-xs text-gray-500">
+              Export the approved roster as <code>public/data/captains.json</code> and rerun the matcher to assign captains
+              to pods by zone and availability.
+            </p>
+            <button
+              type="button"
+              onClick={handleExportRoster}
+              disabled={!applications.some((entry) => entry.status === 'approved')}
+              className="rounded-full border border-asuMaroon px-4 py-2 text-xs font-semibold text-asuMaroon hover:bg-asuMaroon/10 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Export approved captains
+            </button>
           </header>
           {applications.length === 0 ? (
             <p className="text-sm text-gray-500">No applications yet. Encourage peers to apply from the home page.</p>
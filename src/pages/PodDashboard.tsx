@@ -1,64 +1,18 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import SpacePicker, { Space } from '../components/SpacePicker';
+import SpacePicker from '../components/SpacePicker';
 import BelongingPulse from '../components/BelongingPulse';
+import DataErrorPanel from '../components/DataErrorPanel';
 import { formatTagLabel } from '../lib/tagOptions';
 import { getRole, Role } from '../lib/roles';
-import { adjustPoints, getPoints } from '../lib/points';
+import { adjustPoints, getPoints, pointsOwner } from '../lib/points';
+import { publish, subscribe } from '../lib/events';
 import { clampWeek, getRealWeek, persistWeek, readStoredWeek } from '../lib/weeks';
-
-type User = {
-  id: string;
-  name: string;
-  email: string;
-  zone: string;
-  interests: string[];
-  times: string[];
-  tags: string[];
-};
-
-type Pod = {
-  id: string;
-  zone: string;
-  timeslot: string;
-  interests: string[];
-  tags: string[];
-  memberIds: string[];
-  captainId?: string | null;
-  points: number;
-  level: number;
-  vibe: number;
-};
-
-type Quest = {
-  id: string;
-  week: number;
-  title: string;
-  description: string;
-  badges: string[];
-  points: { base: number; coop4: number; coop6: number };
-};
-
-type Badge = {
-  id: string;
-  name: string;
-  icon: string;
-  criteria: string;
-};
-
-type Reward = {
-  id: string;
-  name: string;
-  description: string;
-  cost: number;
-};
-
-type SignupPreferences = {
-  zone: string;
-  times: string[];
-  interests: string[];
-  tags: string[];
-};
+import { availabilityWindows, canMeetAt } from '../lib/timeslots';
+import { isVirtualZone } from '../lib/zones';
+import { DataError, loadDataFiles } from '../lib/data';
+import type { Badge, Pod, Quest, Reward, Space, User } from '../lib/types';
+import { Signup, storage } from '../lib/storage';
 
 type DataBundle = {
   users: User[];
@@ -78,19 +32,6 @@ const defaultBundle: DataBundle = {
   rewards: [],
 };
 
-const loadJson = async <T,>(path: string): Promise<T | null> => {
-  try {
-    const response = await fetch(path);
-    if (!response.ok) {
-      throw new Error(`Failed to load ${path}: ${response.status}`);
-    }
-    return (await response.json()) as T;
-  } catch (error) {
-    console.error(`Unable to load ${path}`, error);
-    return null;
-  }
-};
-
 const getEffectiveAvailability = (space: Space, overrides: Record<string, boolean>): boolean => {
   if (space.id in overrides) {
     return overrides[space.id];
@@ -102,7 +43,8 @@ const PodDashboard: React.FC = () => {
   const navigate = useNavigate();
   const [bundle, setBundle] = useState<DataBundle>(defaultBundle);
   const [isLoadingData, setIsLoadingData] = useState<boolean>(true);
-  const [signupPrefs, setSignupPrefs] = useState<SignupPreferences | null>(null);
+  const [dataErrors, setDataErrors] = useState<DataError[]>([]);
+  const [signupPrefs, setSignupPrefs] = useState<Signup | null>(null);
   const [pod, setPod] = useState<Pod | null>(null);
   const [podMembers, setPodMembers] = useState<User[]>([]);
   const [quest, setQuest] = useState<Quest | null>(null);
@@ -111,76 +53,47 @@ const PodDashboard: React.FC = () => {
   const [role, setRoleState] = useState<Role>(() => (typeof window === 'undefined' ? 'student' : getRole()));
   const [currentUserId, setCurrentUserId] = useState<string | null>(() => {
     if (typeof window === 'undefined') return null;
-    return localStorage.getItem('currentUserId');
+    return storage.session.get().userId;
   });
   const [currentUserName, setCurrentUserName] = useState<string>(() => {
     if (typeof window === 'undefined') return 'Friend';
-    return localStorage.getItem('currentUserName') || 'Friend';
-  });
-  const [points, setPointsState] = useState<number>(() => {
-    if (typeof window === 'undefined') return 0;
-    const uid = localStorage.getItem('currentUserId');
-    return getPoints(uid);
+    return storage.session.get().name || 'Friend';
   });
+  const [points, setPointsState] = useState<number>(0);
   const pointsAnimationStart = useRef(points);
   const [displayedPoints, setDisplayedPoints] = useState<number>(points);
   const [unlockedBadges, setUnlockedBadges] = useState<Badge[]>([]);
   const [questCompleted, setQuestCompleted] = useState<boolean>(false);
   const [selectedSpace, setSelectedSpace] = useState<Space | null>(null);
   const [showSpacePicker, setShowSpacePicker] = useState<boolean>(false);
-  const [availabilityOverrides, setAvailabilityOverrides] = useState<Record<string, boolean>>(() => {
-    if (typeof window === 'undefined') return {};
-    const overrides: Record<string, boolean> = {};
-    try {
-      const possibleKeys = Object.keys(localStorage).filter((key) => key.startsWith('spaceAvail:'));
-      possibleKeys.forEach((key) => {
-        const spaceId = key.split(':')[1];
-        overrides[spaceId] = localStorage.getItem(key) === '1';
-      });
-    } catch (error) {
-      console.error('Unable to hydrate space availability overrides', error);
-    }
-    return overrides;
-  });
+  const [meetingLink, setMeetingLink] = useState<string | null>(null);
+  const [meetingLinkDraft, setMeetingLinkDraft] = useState<string>('');
+  const [availabilityOverrides, setAvailabilityOverrides] = useState<Record<string, boolean>>({});
   const [showPulseModal, setShowPulseModal] = useState<boolean>(false);
   const [lastBelongingScore, setLastBelongingScore] = useState<number | null>(null);
   const [belongingDelta, setBelongingDelta] = useState<number | null>(null);
   const [isCheckedInThisWeek, setIsCheckedInThisWeek] = useState<boolean>(false);
   const [vibeAverage, setVibeAverage] = useState<number | null>(null);
+  const [progressVersion, setProgressVersion] = useState<number>(0);
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
     const refresh = () => setRealWeek(getRealWeek());
     refresh();
     const interval = window.setInterval(refresh, 1000 * 60 * 60);
-    window.addEventListener('pods:week-refresh', refresh);
-    return () => {
-      window.clearInterval(interval);
-      window.removeEventListener('pods:week-refresh', refresh);
-    };
+    return () => window.clearInterval(interval);
   }, []);
 
-  const loadVibeAverage = useCallback(() => {
+  // The captain console moves the shared week, possibly from another tab
+  useEffect(() => subscribe('week-updated', (event) => setCurrentWeek(event.week)), []);
+
+  const loadVibeAverage = useCallback(async () => {
     if (typeof window === 'undefined' || !pod) {
       setVibeAverage(null);
       return;
     }
     try {
-      const direct = localStorage.getItem(`vibeRatings:${pod.id}`);
-      const aggregateRaw = direct ?? localStorage.getItem('vibeRatings');
-      if (!aggregateRaw) {
-        setVibeAverage(null);
-        return;
-      }
-      const parsed = JSON.parse(aggregateRaw);
-      const values: unknown = direct ? parsed : parsed?.[pod.id];
-      if (!Array.isArray(values)) {
-        setVibeAverage(null);
-        return;
-      }
-      const numeric = values
-        .map((entry) => Number(entry))
-        .filter((value) => Number.isFinite(value) && value > 0) as number[];
+      const numeric = (await storage.pulses.vibe(pod.id)).filter((value) => value > 0);
       if (numeric.length === 0) {
         if (pod.vibe && pod.vibe > 0) {
           setVibeAverage(Math.round(pod.vibe * 10) / 10);
@@ -192,7 +105,7 @@ const PodDashboard: React.FC = () => {
       const average = numeric.reduce((sum, value) => sum + value, 0) / numeric.length;
       setVibeAverage(Math.round(average * 10) / 10);
     } catch (error) {
-      console.error('Unable to parse vibe ratings', error);
+      console.error('Unable to load vibe ratings', error);
       setVibeAverage(null);
     }
   }, [pod]);
@@ -201,25 +114,17 @@ const PodDashboard: React.FC = () => {
     loadVibeAverage();
   }, [loadVibeAverage]);
 
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-    const handleStorage = (event: StorageEvent) => {
-      if (!pod) return;
-      if (!event.key || event.key === `vibeRatings:${pod.id}` || event.key === 'vibeRatings') {
-        loadVibeAverage();
-      }
-    };
-    const handleCustom = () => loadVibeAverage();
-    window.addEventListener('storage', handleStorage);
-    window.addEventListener('pods:vibe-updated', handleCustom as EventListener);
-    return () => {
-      window.removeEventListener('storage', handleStorage);
-      window.removeEventListener('pods:vibe-updated', handleCustom as EventListener);
-    };
-  }, [loadVibeAverage, pod]);
+  useEffect(
+    () =>
+      subscribe('vibe-updated', (event) => {
+        if (event.podId === pod?.id) loadVibeAverage();
+      }),
+    [loadVibeAverage, pod]
+  );
 
   const isCaptain = role === 'captain';
   const isCaptainCandidate = role === 'captain-candidate';
+  const isVirtualPod = Boolean(pod && isVirtualZone(pod.zone));
   const currentUserKey = currentUserId || 'guest';
 
   useEffect(() => {
@@ -227,26 +132,16 @@ const PodDashboard: React.FC = () => {
     try {
       const resolvedWeek = readStoredWeek();
       setCurrentWeek(resolvedWeek);
-      const userId = localStorage.getItem('currentUserId');
-      const userName = localStorage.getItem('currentUserName');
-      setCurrentUserId(userId);
-      setCurrentUserName(userName || 'Friend');
-      setRoleState(getRole());
-      const storedSignup = localStorage.getItem('signupData');
-      if (!storedSignup) {
+      const session = storage.session.get();
+      setCurrentUserId(session.userId);
+      setCurrentUserName(session.name || 'Friend');
+      setRoleState(session.role);
+      const signup = storage.session.signup();
+      if (!signup) {
         navigate('/', { replace: true });
         return;
       }
-      const parsedSignup = JSON.parse(storedSignup) as Partial<SignupPreferences>;
-      if (!parsedSignup.zone) {
-        throw new Error('Signup zone missing');
-      }
-      setSignupPrefs({
-        zone: parsedSignup.zone,
-        times: Array.isArray(parsedSignup.times) ? parsedSignup.times.map(String) : [],
-        interests: Array.isArray(parsedSignup.interests) ? parsedSignup.interests.map(String) : [],
-        tags: Array.isArray(parsedSignup.tags) ? parsedSignup.tags.map(String) : [],
-      });
+      setSignupPrefs(signup);
     } catch (error) {
       console.error('Unable to restore signup session', error);
       navigate('/', { replace: true });
@@ -256,22 +151,24 @@ const PodDashboard: React.FC = () => {
   useEffect(() => {
     const loadData = async () => {
       setIsLoadingData(true);
-      const [users, pods, quests, badges, spaces, rewards] = await Promise.all([
-        loadJson<User[]>('/data/users.json'),
-        loadJson<Pod[]>('/data/pods.json'),
-        loadJson<Quest[]>('/data/quests.json'),
-        loadJson<Badge[]>('/data/badges.json'),
-        loadJson<Space[]>('/data/spaces.json'),
-        loadJson<Reward[]>('/data/rewards.json'),
+      const { data, errors } = await loadDataFiles([
+        'users.json',
+        'pods.json',
+        'quests.json',
+        'badges.json',
+        'spaces.json',
+        'rewards.json',
       ]);
+      errors.forEach((error) => console.error(error.message));
       setBundle({
-        users: users ?? [],
-        pods: pods ?? [],
-        quests: quests ?? [],
-        badges: badges ?? [],
-        spaces: spaces ?? [],
-        rewards: rewards ?? [],
+        users: data['users.json'] ?? [],
+        pods: data['pods.json'] ?? [],
+        quests: data['quests.json'] ?? [],
+        badges: data['badges.json'] ?? [],
+        spaces: data['spaces.json'] ?? [],
+        rewards: data['rewards.json'] ?? [],
       });
+      setDataErrors(errors);
       setIsLoadingData(false);
     };
     loadData();
@@ -279,37 +176,36 @@ const PodDashboard: React.FC = () => {
 
   useEffect(() => {
     const handleRole = () => setRoleState(getRole());
-    const syncSession = () => {
-      const uid = localStorage.getItem('currentUserId');
-      const displayName = localStorage.getItem('currentUserName');
-      setCurrentUserId(uid);
-      setCurrentUserName(displayName || 'Friend');
-      setPointsState(getPoints(uid));
+    const refreshPoints = (uid: string | null) => {
+      getPoints(uid)
+        .then(setPointsState)
+        .catch((error) => console.error('Unable to load points', error));
     };
-    const handlePoints = (event: Event) => {
-      const detail = (event as CustomEvent<number | undefined>).detail;
-      if (typeof detail === 'number') {
-        setPointsState(detail);
-      } else {
-        const uid = localStorage.getItem('currentUserId');
-        setPointsState(getPoints(uid));
-      }
+    const syncSession = () => {
+      const session = storage.session.get();
+      setCurrentUserId(session.userId);
+      setCurrentUserName(session.name || 'Friend');
+      refreshPoints(session.userId);
     };
 
-    window.addEventListener('pods:role-updated', handleRole);
-    window.addEventListener('pods:session-updated', syncSession);
-    window.addEventListener('pods:points-updated', handlePoints as EventListener);
-    window.addEventListener('storage', syncSession);
-    return () => {
-      window.removeEventListener('pods:role-updated', handleRole);
-      window.removeEventListener('pods:session-updated', syncSession);
-      window.removeEventListener('pods:points-updated', handlePoints as EventListener);
-      window.removeEventListener('storage', syncSession);
-    };
+    const unsubscribers = [
+      subscribe('role-updated', handleRole),
+      subscribe('session-updated', syncSession),
+      subscribe('points-updated', (event) => {
+        if (event.userId === pointsOwner(storage.session.get().userId)) setPointsState(event.points);
+      }),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, []);
 
   useEffect(() => {
-    setPointsState(getPoints(currentUserId));
+    getPoints(currentUserId)
+      .then((value) => {
+        // A freshly loaded balance shows as is; only changes count up
+        pointsAnimationStart.current = value;
+        setPointsState(value);
+      })
+      .catch((error) => console.error('Unable to load points', error));
   }, [currentUserId]);
 
   useEffect(() => {
@@ -338,32 +234,22 @@ const PodDashboard: React.FC = () => {
 
   useEffect(() => {
     if (bundle.badges.length === 0) return;
-    try {
-      const stored = localStorage.getItem('unlockedBadges');
-      if (!stored) {
-        setUnlockedBadges([]);
-        return;
-      }
-      const parsed = JSON.parse(stored) as string[];
-      if (Array.isArray(parsed)) {
-        const badges = bundle.badges.filter((badge) => parsed.includes(badge.id));
-        setUnlockedBadges(badges);
-      }
-    } catch (error) {
-      console.error('Unable to restore badges', error);
-    }
-  }, [bundle.badges]);
+    storage.progress
+      .badges(currentUserId)
+      .then((unlocked) => setUnlockedBadges(bundle.badges.filter((badge) => unlocked.includes(badge.id))))
+      .catch((error) => console.error('Unable to restore badges', error));
+  }, [bundle.badges, currentUserId]);
 
   useEffect(() => {
     if (!signupPrefs || bundle.pods.length === 0) return;
     const { zone, times, interests } = signupPrefs;
-    const timeSet = new Set(times);
+    const windows = availabilityWindows(times);
     const interestSet = new Set(interests);
     const matchesAll = (candidate: Pod) =>
       candidate.zone === zone &&
-      timeSet.has(candidate.timeslot) &&
+      canMeetAt(windows, candidate.timeslot) &&
       candidate.interests.some((value) => interestSet.has(value));
-    const matchesZoneTime = (candidate: Pod) => candidate.zone === zone && timeSet.has(candidate.timeslot);
+    const matchesZoneTime = (candidate: Pod) => candidate.zone === zone && canMeetAt(windows, candidate.timeslot);
     const matchesZoneInterest = (candidate: Pod) =>
       candidate.zone === zone && candidate.interests.some((value) => interestSet.has(value));
 
@@ -397,80 +283,97 @@ const PodDashboard: React.FC = () => {
     setQuest(activeQuest);
   }, [bundle.quests, currentWeek]);
 
-  const checkinKey = useMemo(() => (pod ? `checkin:${pod.id}:${currentWeek}:${currentUserKey}` : null), [pod, currentWeek, currentUserKey]);
-  const questCompletionKey = useMemo(
-    () => (pod ? `quest:${pod.id}:${currentWeek}:${currentUserKey}` : null),
-    [pod, currentWeek, currentUserKey]
-  );
-
   useEffect(() => {
-    if (!checkinKey) {
+    if (!pod) {
       setIsCheckedInThisWeek(false);
-      return;
-    }
-    setIsCheckedInThisWeek(Boolean(localStorage.getItem(checkinKey)));
-  }, [checkinKey]);
-
-  useEffect(() => {
-    if (!questCompletionKey) {
       setQuestCompleted(false);
       return;
     }
-    setQuestCompleted(Boolean(localStorage.getItem(questCompletionKey)));
-  }, [questCompletionKey]);
+    let cancelled = false;
+    storage.progress
+      .list(pod.id)
+      .then((marks) => {
+        if (cancelled) return;
+        const done = (kind: 'checkin' | 'quest') =>
+          marks.some((mark) => mark.kind === kind && mark.week === currentWeek && mark.userId === currentUserKey);
+        setIsCheckedInThisWeek(done('checkin'));
+        setQuestCompleted(done('quest'));
+      })
+      .catch((error) => console.error('Unable to load weekly progress', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [pod, currentWeek, currentUserKey, progressVersion]);
+
+  // A captain can toggle attendance for this pod from the console
+  useEffect(
+    () =>
+      subscribe('progress-updated', (event) => {
+        if (event.podId === pod?.id) setProgressVersion((value) => value + 1);
+      }),
+    [pod]
+  );
+
+  useEffect(
+    () =>
+      subscribe('spaces-updated', () => {
+        storage.spaces
+          .availability()
+          .then(setAvailabilityOverrides)
+          .catch((error) => console.error('Unable to reload space availability', error));
+      }),
+    []
+  );
 
   useEffect(() => {
     if (bundle.spaces.length === 0 || !pod || !pod.zone) return;
-    const overrides: Record<string, boolean> = {};
-    bundle.spaces.forEach((space) => {
-      const override = localStorage.getItem(`spaceAvail:${space.id}`);
-      if (override === '0') overrides[space.id] = false;
-      if (override === '1') overrides[space.id] = true;
-    });
-    setAvailabilityOverrides((prev) => ({ ...overrides, ...prev }));
-
-    const persistedSelection = localStorage.getItem(`selectedSpace:${pod.id}`);
-    const candidate = persistedSelection
-      ? bundle.spaces.find((space) => space.id === persistedSelection)
-      : bundle.spaces.find((space) => space.zone === pod.zone && getEffectiveAvailability(space, overrides));
-    if (candidate) {
-      setSelectedSpace(candidate);
-    }
+    const restoreSpace = async () => {
+      const [overrides, storedSelection] = await Promise.all([
+        storage.spaces.availability(),
+        storage.spaces.selected(pod.id),
+      ]);
+      setAvailabilityOverrides((prev) => ({ ...overrides, ...prev }));
+
+      // A captain's pick wins, then the home space from the match run. Pods the
+      // matcher could not seat (spaceId null) wait for the captain to choose.
+      const persistedSelection = storedSelection ?? pod.spaceId;
+      const candidate = persistedSelection
+        ? bundle.spaces.find((space) => space.id === persistedSelection)
+        : pod.spaceId === undefined
+          ? bundle.spaces.find((space) => space.zone === pod.zone && getEffectiveAvailability(space, overrides))
+          : undefined;
+      if (candidate) {
+        setSelectedSpace(candidate);
+      }
+    };
+    restoreSpace().catch((error) => console.error('Unable to restore meeting space', error));
   }, [bundle.spaces, pod]);
 
   useEffect(() => {
-    try {
-      const history: { date: string; scores: number[] }[] = JSON.parse(localStorage.getItem('belongingPulse') || '[]');
-      if (history.length > 0) {
-        const last = history[history.length - 1];
-        const lastAvg = last.scores.reduce((sum, value) => sum + value, 0) / last.scores.length;
-        setLastBelongingScore(lastAvg);
-        if (history.length > 1) {
-          const prev = history[history.length - 2];
-          const prevAvg = prev.scores.reduce((sum, value) => sum + value, 0) / prev.scores.length;
-          setBelongingDelta(lastAvg - prevAvg);
+    storage.pulses
+      .history(currentUserId)
+      .then((history) => {
+        if (history.length > 0) {
+          const last = history[history.length - 1];
+          const lastAvg = last.scores.reduce((sum, value) => sum + value, 0) / last.scores.length;
+          setLastBelongingScore(lastAvg);
+          if (history.length > 1) {
+            const prev = history[history.length - 2];
+            const prevAvg = prev.scores.reduce((sum, value) => sum + value, 0) / prev.scores.length;
+            setBelongingDelta(lastAvg - prevAvg);
+          }
         }
-      }
-    } catch (error) {
-      console.error('Unable to restore belonging pulse history', error);
-    }
-  }, []);
+      })
+      .catch((error) => console.error('Unable to restore belonging pulse history', error));
+  }, [currentUserId]);
 
   const awardBadge = (badgeId: string) => {
     const badge = bundle.badges.find((item) => item.id === badgeId);
     if (!badge) return;
-    setUnlockedBadges((prev) => {
-      if (prev.some((item) => item.id === badge.id)) {
-        return prev;
-      }
-      const updated = [...prev, badge];
-      try {
-        localStorage.setItem('unlockedBadges', JSON.stringify(updated.map((item) => item.id)));
-      } catch (error) {
-        console.error('Unable to persist badge unlock', error);
-      }
-      return updated;
-    });
+    setUnlockedBadges((prev) => (prev.some((item) => item.id === badge.id) ? prev : [...prev, badge]));
+    storage.progress
+      .unlockBadge(currentUserId, badge.id)
+      .catch((error) => console.error('Unable to persist badge unlock', error));
   };
 
   const updateWeek = (nextWeek: number) => {
@@ -479,48 +382,79 @@ const PodDashboard: React.FC = () => {
     persistWeek(safeWeek);
   };
 
+  const markDone = async (kind: 'checkin' | 'quest', earned: number) => {
+    if (!pod) return;
+    await storage.progress.set({ kind, podId: pod.id, week: currentWeek, userId: currentUserKey }, true);
+    publish({ type: 'progress-updated', podId: pod.id });
+    setPointsState(await adjustPoints(currentUserKey, earned));
+  };
+
   const handleCheckIn = () => {
-    if (!pod || !checkinKey || isCheckedInThisWeek) return;
-    const next = adjustPoints(currentUserKey, 10);
-    setPointsState(next);
-    localStorage.setItem(checkinKey, '1');
+    if (!pod || isCheckedInThisWeek) return;
+    // Online pods check in as they join the call
+    if (isVirtualPod && meetingLink) {
+      window.open(meetingLink, '_blank', 'noopener,noreferrer');
+    }
     setIsCheckedInThisWeek(true);
+    markDone('checkin', 10).catch((error) => {
+      console.error('Unable to save check-in', error);
+      setIsCheckedInThisWeek(false);
+    });
   };
 
   const handleCompleteQuest = () => {
-    if (!pod || !quest || !questCompletionKey || questCompleted) return;
-    const next = adjustPoints(currentUserKey, quest.points.base);
-    setPointsState(next);
-    localStorage.setItem(questCompletionKey, '1');
+    if (!pod || !quest || questCompleted) return;
     setQuestCompleted(true);
     awardBadge(quest.badges[0]);
+    markDone('quest', quest.points.base).catch((error) => {
+      console.error('Unable to save quest completion', error);
+      setQuestCompleted(false);
+    });
+  };
+
+  // Virtual pods: the captain's link wins over the one from the match run
+  useEffect(() => {
+    if (!pod) return;
+    const apply = (stored: string | null) => {
+      const link = stored || pod.meetingLink || null;
+      setMeetingLink(link);
+      setMeetingLinkDraft(link ?? '');
+    };
+    storage.spaces
+      .meetingLink(pod.id)
+      .then(apply)
+      .catch((error) => {
+        console.error('Unable to load meeting link', error);
+        apply(null);
+      });
+  }, [pod]);
+
+  const saveMeetingLink = () => {
+    if (!pod) return;
+    const link = meetingLinkDraft.trim();
+    if (link && !/^https?:\/\//i.test(link)) return;
+    storage.spaces
+      .setMeetingLink(pod.id, link || null)
+      .catch((error) => console.error('Unable to persist meeting link', error));
+    setMeetingLink(link || pod.meetingLink || null);
   };
 
   const updateSelectedSpace = (space: Space) => {
     setSelectedSpace(space);
     if (pod) {
-      try {
-        localStorage.setItem(`selectedSpace:${pod.id}`, space.id);
-      } catch (error) {
-        console.error('Unable to persist selected space', error);
-      }
+      storage.spaces.select(pod.id, space.id).catch((error) => console.error('Unable to persist selected space', error));
     }
   };
 
   const toggleAvailability = (spaceId: string) => {
     const source = bundle.spaces.find((space) => space.id === spaceId);
     if (!source) return;
-    setAvailabilityOverrides((prev) => {
-      const current = getEffectiveAvailability(source, prev);
-      const next = !current;
-      const updated = { ...prev, [spaceId]: next };
-      try {
-        localStorage.setItem(`spaceAvail:${spaceId}`, next ? '1' : '0');
-      } catch (error) {
-        console.error('Unable to persist space availability', error);
-      }
-      return updated;
-    });
+    const next = !getEffectiveAvailability(source, availabilityOverrides);
+    setAvailabilityOverrides((prev) => ({ ...prev, [spaceId]: next }));
+    storage.spaces
+      .setAvailability(spaceId, next)
+      .then(() => publish({ type: 'spaces-updated' }))
+      .catch((error) => console.error('Unable to persist space availability', error));
   };
 
   const handleSavePulse = (scores: number[]) => {
@@ -551,12 +485,18 @@ const PodDashboard: React.FC = () => {
   const dashboardTags = (signupPrefs?.tags ?? []).filter((tag) => tag && tag.trim().length > 0);
   const viewingCurrentWeek = currentWeek === realWeek;
   const checkInDisabled = isCheckedInThisWeek;
-  const checkInButtonLabel = isCheckedInThisWeek ? 'Checked In' : 'Check in (+10)';
-  const checkInTooltip = undefined;
+  const checkInButtonLabel = isCheckedInThisWeek
+    ? 'Checked In'
+    : isVirtualPod && meetingLink
+      ? 'Join & check in (+10)'
+      : 'Check in (+10)';
+  const checkInTooltip = isVirtualPod && meetingLink && !isCheckedInThisWeek ? 'Opens your pod call' : undefined;
   const nextCheckInWeek = clampWeek(currentWeek + 1);
   const checkInMessage = isCheckedInThisWeek
     ? `Great work—next check-in unlocks on Week ${nextCheckInWeek}.`
-    : 'One check-in per week keeps your pod energized.';
+    : isVirtualPod
+      ? 'Check in when you join this week\'s online meetup.'
+      : 'One check-in per week keeps your pod energized.';
 
   const sortedBadges = useMemo(() => {
     const unlockedIds = new Set(unlockedBadges.map((badge) => badge.id));
@@ -576,18 +516,27 @@ const PodDashboard: React.FC = () => {
 
   if (!pod) {
     return (
-      <div className="p-4 bg-white/80 backdrop-blur rounded-2xl border border-white/60 shadow-xl">
-        We couldn&apos;t find a matching pod. Please head back to the sign-up page and try again.
+      <div className="space-y-4">
+        <DataErrorPanel errors={dataErrors} />
+        <div className="p-4 bg-white/80 backdrop-blur rounded-2xl border border-white/60 shadow-xl">
+          We couldn&apos;t find a matching pod. Please head back to the sign-up page and try again.
+        </div>
       </div>
     );
   }
 
   if (!quest) {
-    return <div className="p-4">Loading this week&apos;s quest…</div>;
+    return (
+      <div className="space-y-4">
+        <DataErrorPanel errors={dataErrors} />
+        <div className="p-4">Loading this week&apos;s quest…</div>
+      </div>
+    );
   }
 
   return (
     <div className="space-y-8">
+      <DataErrorPanel errors={dataErrors} />
       <section className="bg-white/80 backdrop-blur border border-white/60 rounded-2xl shadow-xl p-6 sm:p-8 flex flex-col gap-5">
         <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
           <div>
@@ -797,6 +746,46 @@ const PodDashboard: React.FC = () => {
             </div>
           </div>
         </div>
+        {isVirtualPod ? (
+          <div className="bg-white/80 backdrop-blur border border-white/60 rounded-2xl shadow-xl p-6 space-y-4">
+            <h2 className="text-xl font-bold text-asuMaroon">Online Meetup</h2>
+            {meetingLink ? (
+              <div className="space-y-1 text-sm text-gray-700">
+                <a
+                  href={meetingLink}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="font-semibold text-asuMaroon underline break-all"
+                >
+                  {meetingLink}
+                </a>
+                <p className="text-xs text-gray-500">Virtual pod · students from every campus · {pod.timeslot}</p>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">Your captain hasn&apos;t shared a meeting link yet.</p>
+            )}
+            {isCaptain ? (
+              <div className="flex flex-col gap-2 sm:flex-row">
+                <input
+                  type="url"
+                  value={meetingLinkDraft}
+                  onChange={(event) => setMeetingLinkDraft(event.target.value)}
+                  placeholder="https://asu.zoom.us/j/…"
+                  className="flex-1 rounded-xl border border-asuGray bg-white/70 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-asuGold/50"
+                />
+                <button
+                  type="button"
+                  onClick={saveMeetingLink}
+                  className="rounded-full bg-asuMaroon px-4 py-2 text-sm font-semibold text-white hover:bg-[#6f1833]"
+                >
+                  Save link
+                </button>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500">Only your captain can change this.</p>
+            )}
+          </div>
+        ) : (
         <div className="bg-white/80 backdrop-blur border border-white/60 rounded-2xl shadow-xl p-6 space-y-4">
           <div className="flex items-center justify-between">
             <h2 className="text-xl font-bold text-asuMaroon">Meeting Space</h2>
@@ -827,6 +816,7 @@ const PodDashboard: React.FC = () => {
             <p className="text-xs text-gray-500">Only your captain can change this.</p>
           )}
         </div>
+        )}
       </section>
 
       <section className="grid gap-6 lg:grid-cols-2">
@@ -1,27 +1,22 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { setRole, setCurrentUserId } from '../lib/roles';
+import { publish } from '../lib/events';
 import { TAG_OPTIONS } from '../lib/tagOptions';
-
-const ZONES = ['Tempe', 'West', 'Poly', 'DTPHX'] as const;
-const TIMESLOTS = [
-  'Mon 10:00',
-  'Mon 14:00',
-  'Tue 11:30',
-  'Tue 14:00',
-  'Tue 15:00',
-  'Wed 12:30',
-  'Wed 16:00',
-  'Thu 17:00',
-  'Fri 15:00',
-  'Sat 13:00',
-  'Sun 10:00',
-] as const;
-
-type InterestData = {
-  id: string;
-  name: string;
-};
+import {
+  InterestEntry,
+  InterestTaxonomy,
+  buildInterestLookup,
+  canonicalizeInterests,
+  parseTaxonomy,
+  suggestInterests,
+} from '../lib/interests';
+import { MEETING_MINUTES, SLOT_FLEX_MINUTES, TIMESLOTS } from '../lib/timeslots';
+import { STUDENT_ZONES, VIRTUAL_ZONE } from '../lib/zones';
+import { normalizeEmail, parseEmailList } from '../lib/emails';
+import { DataError, loadDataFile } from '../lib/data';
+import { Signup, storage } from '../lib/storage';
+import DataErrorPanel from '../components/DataErrorPanel';
 
 type KnownUser = {
   id: string;
@@ -29,113 +24,79 @@ type KnownUser = {
   email: string;
 };
 
-type SignupPayload = {
-  zone: string;
-  times: string[];
-  interests: string[];
-  tags: string[];
-};
-
-const defaultPayload: SignupPayload = {
+const defaultPayload: Signup = {
   zone: 'Tempe',
   times: [],
   interests: [],
   tags: [],
+  buddies: [],
+  avoid: [],
 };
 
 const SignUp: React.FC = () => {
   const navigate = useNavigate();
-  const [interestOptions, setInterestOptions] = useState<InterestData[]>([]);
+  const [taxonomy, setTaxonomy] = useState<InterestTaxonomy>({ categories: [], interests: [] });
   const [interestInput, setInterestInput] = useState<string>('');
   const [times, setTimes] = useState<string[]>(defaultPayload.times);
   const [zone, setZone] = useState<string>(defaultPayload.zone);
   const [tags, setTags] = useState<string[]>(defaultPayload.tags);
   const [otherTag, setOtherTag] = useState<string>('');
+  const [buddyInput, setBuddyInput] = useState<string>('');
+  const [avoidInput, setAvoidInput] = useState<string>('');
   const [name, setName] = useState<string>('');
   const [email, setEmail] = useState<string>('');
   const [knownUsers, setKnownUsers] = useState<KnownUser[]>([]);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [dataErrors, setDataErrors] = useState<DataError[]>([]);
+
+  const reportDataError = (error: unknown) => {
+    if (error instanceof DataError) setDataErrors((current) => [...current, error]);
+  };
 
   useEffect(() => {
-    fetch('/data/interests.json')
-      .then((res) => {
-        if (!res.ok) {
-          throw new Error(`Failed to load interests: ${res.status}`);
-        }
-        return res.json();
-      })
-      .then((data: unknown) => {
-        const opts = (Array.isArray(data) ? data : []).map((raw, idx) => ({
-          id: `interest-${idx}`,
-          name: String(raw),
-        }));
-        setInterestOptions(opts);
-      })
+    loadDataFile('interests.json')
+      .then(setTaxonomy)
       .catch((error) => {
         console.error('Unable to load interests.json', error);
-        setInterestOptions(
-          ['study sprint', 'soccer', 'coffee', 'anime', 'hiking', 'music'].map((label, idx) => ({
-            id: `interest-${idx}`,
-            name: label,
-          }))
-        );
+        reportDataError(error);
+        setTaxonomy(parseTaxonomy(['study sprint', 'soccer', 'coffee', 'anime', 'hiking', 'music']));
       });
   }, []);
 
   useEffect(() => {
-    const hydrate = async () => {
-      try {
-        const [usersRes] = await Promise.all([fetch('/data/users.json')]);
-        if (usersRes.ok) {
-          const usersJson = await usersRes.json();
-          if (Array.isArray(usersJson)) {
-            setKnownUsers(
-              usersJson.map((user: any) => ({
-                id: String(user.id),
-                name: String(user.name),
-                email: String(user.email || '').toLowerCase(),
-              }))
-            );
-          }
-        }
-      } catch (error) {
+    loadDataFile('users.json')
+      .then((users) =>
+        setKnownUsers(
+          users.map((user) => ({
+            id: user.id,
+            name: user.name,
+            email: user.email.toLowerCase(),
+          }))
+        )
+      )
+      .catch((error) => {
         console.error('Unable to load roster data', error);
-      }
-    };
-
-    hydrate();
+        reportDataError(error);
+      });
   }, []);
 
   useEffect(() => {
-    try {
-      const storedProfile = localStorage.getItem('signupProfile');
-      if (storedProfile) {
-        const parsed = JSON.parse(storedProfile) as { name?: string; email?: string };
-        if (parsed.name) setName(parsed.name);
-        if (parsed.email) setEmail(parsed.email);
-      }
-      const storedSignup = localStorage.getItem('signupData');
-      if (storedSignup) {
-        const parsed = JSON.parse(storedSignup) as Partial<SignupPayload>;
-        if (parsed.zone) setZone(parsed.zone);
-        if (Array.isArray(parsed.times)) setTimes(parsed.times.map(String));
-        if (Array.isArray(parsed.interests)) {
-          const restoredInterests = parsed.interests.map(String);
-          setInterestInput(restoredInterests.join('; '));
-        }
-        if (Array.isArray(parsed.tags)) {
-          const restoredTags = parsed.tags.map(String);
-          const otherEntry = restoredTags.find((value) => value.startsWith('other:'));
-          const baseTags = restoredTags.filter((value) => !value.startsWith('other:'));
-          setTags(baseTags);
-          if (otherEntry) {
-            setOtherTag(otherEntry.slice('other:'.length));
-          }
-        }
+    const profile = storage.session.profile();
+    if (profile?.name) setName(profile.name);
+    if (profile?.email) setEmail(profile.email);
+    const signup = storage.session.signup();
+    if (signup) {
+      setZone(signup.zone);
+      setTimes(signup.times);
+      setInterestInput(signup.interests.join('; '));
+      const otherEntry = signup.tags.find((value) => value.startsWith('other:'));
+      setTags(signup.tags.filter((value) => !value.startsWith('other:')));
+      if (otherEntry) {
+        setOtherTag(otherEntry.slice('other:'.length));
       }
-    } catch (error) {
-      console.error('Unable to restore signup data', error);
+      setBuddyInput(signup.buddies.join(', '));
+      setAvoidInput(signup.avoid.join(', '));
     }
   }, []);
 
@@ -150,29 +111,52 @@ const SignUp: React.FC = () => {
   };
 
   const interestPlaceholder = useMemo(() => {
-    if (interestOptions.length === 0) {
+    if (taxonomy.interests.length === 0) {
       return 'e.g., study sprint; anime; soccer; weekend hikes';
     }
-    const suggestions = interestOptions.slice(0, 4).map((item) => item.name.toLowerCase());
+    const suggestions = taxonomy.interests.slice(0, 4).map((item) => item.name.toLowerCase());
     return `e.g., ${suggestions.join('; ')}`;
-  }, [interestOptions]);
+  }, [taxonomy]);
+
+  const interestLookup = useMemo(() => buildInterestLookup(taxonomy), [taxonomy]);
+
+  // Suggest taxonomy entries for whatever is being typed after the last separator
+  const interestSuggestions = useMemo(() => {
+    const currentToken = interestInput.split(/[,;]/).pop() ?? '';
+    const entered = canonicalizeInterests(parseDelimitedInput(interestInput), interestLookup);
+    return suggestInterests(currentToken, taxonomy, 12)
+      .filter((entry) => !entered.includes(entry.name))
+      .slice(0, 6);
+  }, [interestInput, interestLookup, taxonomy]);
+
+  const buddyList = useMemo(() => parseEmailList(buddyInput), [buddyInput]);
+  const avoidList = useMemo(() => parseEmailList(avoidInput), [avoidInput]);
+
+  const applySuggestion = (entry: InterestEntry) => {
+    const separatorIndex = Math.max(interestInput.lastIndexOf(';'), interestInput.lastIndexOf(','));
+    const head = interestInput.slice(0, separatorIndex + 1).trimEnd();
+    setInterestInput(`${head}${head ? ' ' : ''}${entry.name}; `);
+  };
 
   const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     if (isSubmitting) return;
     setIsSubmitting(true);
 
-    const parsedInterests = parseDelimitedInput(interestInput);
+    const parsedInterests = canonicalizeInterests(parseDelimitedInput(interestInput), interestLookup);
     const normalizedTags = [...tags];
     const customTag = otherTag.trim();
     if (customTag) {
       normalizedTags.push(`other:${customTag}`);
     }
 
-    const payload: SignupPayload = { zone, times, interests: parsedInterests, tags: normalizedTags };
+    const ownEmail = normalizeEmail(email);
+    const avoid = avoidList.emails.filter((value) => value !== ownEmail);
+    // Someone on both lists is treated as do-not-match
+    const buddies = buddyList.emails.filter((value) => value !== ownEmail && !avoid.includes(value));
+    const payload: Signup = { zone, times, interests: parsedInterests, tags: normalizedTags, buddies, avoid };
     try {
-      localStorage.setItem('signupData', JSON.stringify(payload));
-      localStorage.setItem('signupProfile', JSON.stringify({ name, email }));
+      storage.session.saveSignup(payload, { name, email });
     } catch (error) {
       console.error('Unable to persist signup payload', error);
     }
@@ -188,13 +172,10 @@ const SignUp: React.FC = () => {
     }
 
     try {
+      storage.session.update(email ? { name: resolvedName, email } : { name: resolvedName });
       setCurrentUserId(resolvedUserId);
-      localStorage.setItem('currentUserName', resolvedName);
-      if (email) {
-        localStorage.setItem('currentUserEmail', email);
-      }
       setRole('student');
-      window.dispatchEvent(new Event('pods:session-updated'));
+      publish({ type: 'session-updated' });
     } catch (error) {
       console.error('Unable to persist session metadata', error);
     }
@@ -206,6 +187,7 @@ const SignUp: React.FC = () => {
 
   return (
     <div className="space-y-6">
+      <DataErrorPanel errors={dataErrors} />
       <div className="text-center space-y-3">
         <h1 className="text-4xl font-extrabold text-asuMaroon">Join the SunDevil Pods+</h1>
         <p className="max-w-2xl mx-auto text-base text-gray-700">
@@ -255,13 +237,35 @@ const SignUp: React.FC = () => {
               placeholder={interestPlaceholder}
               className="w-full rounded-2xl border border-asuGray bg-white/70 px-4 py-3 text-sm shadow-inner focus:outline-none focus:ring-2 focus:ring-asuMaroon/40"
             />
+            {interestSuggestions.length > 0 && (
+              <div className="mt-3 flex flex-wrap items-center gap-2">
+                <span className="text-xs font-semibold uppercase tracking-wide text-asuMaroon/70">Suggestions</span>
+                {interestSuggestions.map((entry) => (
+                  <button
+                    key={entry.id}
+                    type="button"
+                    onClick={() => applySuggestion(entry)}
+                    className="rounded-full border border-asuMaroon/30 bg-white/70 px-3 py-1 text-xs font-medium text-asuMaroon transition hover:bg-asuMaroon/10"
+                  >
+                    + {entry.name}
+                  </button>
+                ))}
+              </div>
+            )}
             <p className="mt-2 text-xs text-gray-500">
-              Separate interests with commas or semicolons. We&apos;ll display them exactly as written on your dashboard.
+              Separate interests with commas or semicolons. Common spellings like &ldquo;studying&rdquo; are matched to the
+              same interest as &ldquo;study sprint&rdquo;.
             </p>
           </div>
 
           <div>
-            <label className="block text-sm font-semibold text-asuMaroon uppercase tracking-wide mb-3">Available 45-minute time slots</label>
+            <label className="block text-sm font-semibold text-asuMaroon uppercase tracking-wide mb-1">
+              Available {MEETING_MINUTES}-minute time slots
+            </label>
+            <p className="mb-3 text-xs text-gray-500">
+              Pods may start up to {SLOT_FLEX_MINUTES} minutes either side of a time you pick, so nearby slots can
+              still land in the same pod.
+            </p>
             <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
               {TIMESLOTS.map((slot) => {
                 const selected = times.includes(slot);
@@ -291,12 +295,18 @@ const SignUp: React.FC = () => {
               onChange={(event) => setZone(event.target.value)}
               className="w-full border border-asuGray rounded-xl px-4 py-2 bg-white/70 focus:outline-none focus:ring-2 focus:ring-asuGold/60"
             >
-              {ZONES.map((z) => (
+              {STUDENT_ZONES.map((z) => (
                 <option key={z} value={z}>
-                  {z}
+                  {z === VIRTUAL_ZONE ? 'Virtual (online, any campus)' : z}
                 </option>
               ))}
             </select>
+            {zone === VIRTUAL_ZONE && (
+              <p className="mt-2 text-xs text-gray-500">
+                Virtual pods meet online with students from every campus. Your captain shares the meeting link on your
+                dashboard.
+              </p>
+            )}
           </div>
 
           <fieldset className="space-y-3">
@@ -340,6 +350,45 @@ const SignUp: React.FC = () => {
             </p>
           </fieldset>
 
+          <fieldset className="space-y-4">
+            <legend className="block text-sm font-semibold text-asuMaroon uppercase tracking-wide">
+              Pod preferences (optional)
+            </legend>
+            <label className="block text-xs text-gray-600">
+              <span className="font-semibold text-asuMaroon block mb-1">Match me with</span>
+              <input
+                type="text"
+                value={buddyInput}
+                onChange={(event) => setBuddyInput(event.target.value)}
+                placeholder="roommate@asu.edu, friend@asu.edu"
+                className="w-full rounded-xl border border-asuGray bg-white/70 px-4 py-2 text-sm shadow-inner focus:outline-none focus:ring-2 focus:ring-asuGold/50"
+              />
+              <span className="mt-1 block text-gray-500">
+                We&apos;ll try to place you together when your zone and times line up.
+              </span>
+            </label>
+            <label className="block text-xs text-gray-600">
+              <span className="font-semibold text-asuMaroon block mb-1">Please don&apos;t match me with</span>
+              <input
+                type="text"
+                value={avoidInput}
+                onChange={(event) => setAvoidInput(event.target.value)}
+                placeholder="ASU emails, separated by commas"
+                autoComplete="off"
+                className="w-full rounded-xl border border-asuGray bg-white/70 px-4 py-2 text-sm shadow-inner focus:outline-none focus:ring-2 focus:ring-asuGold/50"
+              />
+              <span className="mt-1 block text-gray-500">
+                Private. The matcher never puts you in the same pod, and this list is never shown to anyone, including
+                your pod and captain.
+              </span>
+            </label>
+            {(buddyList.invalid.length > 0 || avoidList.invalid.length > 0) && (
+              <p className="text-xs font-semibold text-red-600">
+                Some entries aren&apos;t email addresses and will be ignored.
+              </p>
+            )}
+          </fieldset>
+
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
             <p className="text-sm text-gray-500">
               We&apos;ll use this info to match you with a pod and store a lightweight profile locally for the demo.
@@ -1,98 +1,66 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { getPoints, setPoints as setStoredPoints } from '../lib/points';
+import { getPoints, pointsOwner, setPoints as setStoredPoints } from '../lib/points';
+import { subscribe } from '../lib/events';
 import { currentUserId as getCurrentUserId } from '../lib/roles';
-
-type Reward = {
-  id: string;
-  name: string;
-  description: string;
-  cost: number;
-};
+import { DataError, loadDataFile } from '../lib/data';
+import { storage } from '../lib/storage';
+import type { Reward } from '../lib/types';
+import DataErrorPanel from '../components/DataErrorPanel';
 
 const Store: React.FC = () => {
   const navigate = useNavigate();
   const [rewards, setRewards] = useState<Reward[]>([]);
-  const [points, setPoints] = useState<number>(() => {
-    if (typeof window === 'undefined') return 0;
-    return getPoints(getCurrentUserId());
-  });
-  const [redeemed, setRedeemed] = useState<string[]>(() => {
-    if (typeof window === 'undefined') return [];
-    try {
-      const stored = localStorage.getItem('redeemed');
-      if (!stored) return [];
-      const parsed = JSON.parse(stored);
-      return Array.isArray(parsed) ? parsed.map(String) : [];
-    } catch {
-      return [];
-    }
-  });
+  const [points, setPoints] = useState<number>(0);
+  const [redeemed, setRedeemed] = useState<string[]>([]);
   const [message, setMessage] = useState<string | null>(null);
+  const [dataErrors, setDataErrors] = useState<DataError[]>([]);
 
   useEffect(() => {
-    fetch('/data/rewards.json')
-      .then((res) => {
-        if (!res.ok) {
-          throw new Error(`Unable to load rewards.json: ${res.status}`);
-        }
-        return res.json();
-      })
-      .then((data: unknown) => {
-        if (!Array.isArray(data)) return;
-        setRewards(
-          data
-            .map((item: any) => ({
-              id: String(item.id),
-              name: String(item.name),
-              description: String(item.description),
-              cost: Number(item.cost) || 0,
-            }))
-            .sort((a, b) => a.cost - b.cost)
-        );
-      })
+    loadDataFile('rewards.json')
+      .then((data) => setRewards([...data].sort((a, b) => a.cost - b.cost)))
       .catch((error) => {
         console.error('Unable to load rewards', error);
         setRewards([]);
+        if (error instanceof DataError) setDataErrors([error]);
       });
   }, []);
 
   useEffect(() => {
-    const syncPoints = () => setPoints(getPoints(getCurrentUserId()));
-    const handlePoints = (event: Event) => {
-      const detail = (event as CustomEvent<number | undefined>).detail;
-      if (typeof detail === 'number') {
-        setPoints(detail);
-      } else {
-        syncPoints();
-      }
-    };
-    window.addEventListener('pods:points-updated', handlePoints as EventListener);
-    window.addEventListener('storage', syncPoints);
-    window.addEventListener('pods:session-updated', syncPoints);
-    return () => {
-      window.removeEventListener('pods:points-updated', handlePoints as EventListener);
-      window.removeEventListener('storage', syncPoints);
-      window.removeEventListener('pods:session-updated', syncPoints);
+    storage.progress
+      .redeemed(getCurrentUserId())
+      .then(setRedeemed)
+      .catch((error) => console.error('Unable to load redemption history', error));
+  }, []);
+
+  useEffect(() => {
+    const syncPoints = () => {
+      getPoints(getCurrentUserId())
+        .then(setPoints)
+        .catch((error) => console.error('Unable to load points', error));
     };
+    syncPoints();
+    const unsubscribers = [
+      subscribe('points-updated', (event) => {
+        if (event.userId === pointsOwner(getCurrentUserId())) setPoints(event.points);
+      }),
+      subscribe('session-updated', syncPoints),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, []);
 
   const persistPoints = (value: number) => {
     setPoints(value);
-    try {
-      setStoredPoints(getCurrentUserId(), value);
-    } catch (error) {
-      console.error('Unable to persist points after redemption', error);
-    }
+    setStoredPoints(getCurrentUserId(), value).catch((error) =>
+      console.error('Unable to persist points after redemption', error)
+    );
   };
 
   const persistRedemptions = (ids: string[]) => {
     setRedeemed(ids);
-    try {
-      localStorage.setItem('redeemed', JSON.stringify(ids));
-    } catch (error) {
-      console.error('Unable to persist redemption history', error);
-    }
+    storage.progress
+      .setRedeemed(getCurrentUserId(), ids)
+      .catch((error) => console.error('Unable to persist redemption history', error));
   };
 
   const handleRedeem = (reward: Reward) => {
@@ -106,6 +74,7 @@ const Store: React.FC = () => {
 
   return (
     <div className="space-y-6">
+      <DataErrorPanel errors={dataErrors} />
       <div className="bg-white/80 backdrop-blur border border-white/60 rounded-2xl shadow-xl p-6 sm:p-8 space-y-3">
         <h1 className="text-3xl font-extrabold text-asuMaroon">Pod Rewards Store</h1>
         <div className="rounded-2xl border border-asuGold/40 bg-asuGold/20 px-4 py-2 text-xs font-semibold text-asuMaroon">
@@ -0,0 +1,13 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // "http" to keep progress, points and applications on a server; anything
+  // else runs the demo on localStorage
+  readonly VITE_STORAGE?: string;
+  // Where the server's API lives, e.g. http://localhost:8787/api
+  readonly VITE_API_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
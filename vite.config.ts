@@ -3,10 +3,9 @@ import react from '@vitejs/plugin-react';
 import path from 'path';
 
 // Vite configuration for the SunDevil Pods+ prototype. This file
-// configures the React plugin and sets up a simple alias for
-// resolving imports from the src directory. In a future phase
-// (e.g. phase‑2) this file could be extended to include proxy
-// definitions or server options.
+// configures the React plugin, sets up a simple alias for
+// resolving imports from the src directory, and forwards /api to
+// the local API server (`npm run serve`) during development.
 export default defineConfig({
   plugins: [react()],
   // Ensure correct base path for Vercel deployments
@@ -16,4 +15,9 @@ export default defineConfig({
       '@': path.resolve(__dirname, 'src'),
     },
   },
+  server: {
+    proxy: {
+      '/api': 'http://localhost:8787',
+    },
+  },
 });